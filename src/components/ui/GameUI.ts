@@ -6,6 +6,10 @@ import { ToggleButton } from "./ToggleButton";
 import { GameStateManager, type GameContext } from "../../game/state";
 import type { SlotMachine } from "../../game/reels/SlotMachine";
 import { SoundManager } from "../../game/audio/SoundManager";
+import { GAME_CONFIG } from "../../game/config/GameConfig";
+import { Betting } from "../../game/logic/Betting";
+import { MoneyMath } from "../../game/logic/MoneyMath";
+import type { Money } from "../../types";
 
 export class GameUI extends PIXI.Container {
   private stateManager: GameStateManager;
@@ -14,6 +18,10 @@ export class GameUI extends PIXI.Container {
   private spinButton!: Button;
   private increaseBetButton!: Button;
   private decreaseBetButton!: Button;
+  private increaseLinesButton!: Button;
+  private decreaseLinesButton!: Button;
+  private linesDisplay!: TextDisplay;
+  private totalBetDisplay!: TextDisplay;
   private instantPlayToggle!: ToggleButton;
   private balanceDisplay!: TextDisplay;
   private betInput!: InputField;
@@ -21,13 +29,20 @@ export class GameUI extends PIXI.Container {
   private lastWinDisplay!: TextDisplay;
   private linesWonDisplay!: TextDisplay;
   private multiplierDisplay!: TextDisplay;
+  private freeSpinsDisplay!: TextDisplay;
 
   private currentWinInfo: { linesWon: number; maxMultiplier: number } = {
     linesWon: 0,
     maxMultiplier: 0,
   };
 
-  private initialBalance: number;
+  private initialBalance: Money;
+
+  private readonly isLineGame =
+    (GAME_CONFIG.evaluationMode ?? "lines") === "lines";
+
+  // Ways and cluster games count wins rather than lines
+  private readonly winUnit = this.isLineGame ? "LINE" : "WIN";
 
   private readonly UI_WIDTH = 1200;
   private readonly UI_HEIGHT = 120;
@@ -78,6 +93,47 @@ export class GameUI extends PIXI.Container {
       hoverColor: 0x2980b9,
     });
 
+    this.increaseLinesButton = new Button({
+      width: 40,
+      height: 26,
+      text: "+",
+      fontSize: 16,
+      backgroundColor: 0x8e44ad,
+      hoverColor: 0x7d3c98,
+    });
+
+    this.decreaseLinesButton = new Button({
+      width: 40,
+      height: 26,
+      text: "-",
+      fontSize: 16,
+      backgroundColor: 0x8e44ad,
+      hoverColor: 0x7d3c98,
+    });
+
+    this.linesDisplay = new TextDisplay(`${Betting.defaultLines} LINES`, {
+      width: 80,
+      height: 26,
+      fontSize: 12,
+      fontColor: 0xffffff,
+      backgroundColor: 0x34495e,
+      borderColor: 0x8e44ad,
+    });
+
+    // Ways and cluster games have no lines to choose
+    this.increaseLinesButton.visible = this.isLineGame;
+    this.decreaseLinesButton.visible = this.isLineGame;
+    this.linesDisplay.visible = this.isLineGame;
+
+    this.totalBetDisplay = new TextDisplay("TOTAL BET $0", {
+      width: 180,
+      height: 24,
+      fontSize: 12,
+      fontColor: 0xf1c40f,
+      backgroundColor: 0x2c3e50,
+      borderColor: 0xf1c40f,
+    });
+
     this.instantPlayToggle = new ToggleButton({
       width: 120,
       height: 35,
@@ -91,24 +147,28 @@ export class GameUI extends PIXI.Container {
       defaultState: false,
     });
 
-    this.balanceDisplay = new TextDisplay("$1000", {
-      width: 150,
-      height: 40,
-      fontSize: 18,
-      fontColor: 0xf1c40f,
-      backgroundColor: 0x2c3e50,
-      borderColor: 0xf39c12,
-    });
+    this.balanceDisplay = new TextDisplay(
+      MoneyMath.format(this.stateManager.context.balance),
+      {
+        width: 150,
+        height: 40,
+        fontSize: 18,
+        fontColor: 0xf1c40f,
+        backgroundColor: 0x2c3e50,
+        borderColor: 0xf39c12,
+      }
+    );
 
-    this.betInput = new InputField("10", {
+    this.betInput = new InputField(this.getBetInputValue(), {
       width: 80,
       height: 30,
       fontSize: 14,
       fontColor: 0xffffff,
       backgroundColor: 0x34495e,
+      allowDecimal: true,
     });
 
-    this.winDisplay = new TextDisplay("$0", {
+    this.winDisplay = new TextDisplay(MoneyMath.format(MoneyMath.zero()), {
       width: 100,
       height: 35,
       fontSize: 16,
@@ -117,15 +177,18 @@ export class GameUI extends PIXI.Container {
       borderColor: 0x27ae60,
     });
 
-    this.lastWinDisplay = new TextDisplay("+$0", {
-      width: 100,
-      height: 25,
-      fontSize: 12,
-      fontColor: 0xecf0f1,
-      backgroundColor: 0x34495e,
-    });
+    this.lastWinDisplay = new TextDisplay(
+      `+${MoneyMath.format(MoneyMath.zero())}`,
+      {
+        width: 100,
+        height: 25,
+        fontSize: 12,
+        fontColor: 0xecf0f1,
+        backgroundColor: 0x34495e,
+      }
+    );
 
-    this.linesWonDisplay = new TextDisplay("0 LINES", {
+    this.linesWonDisplay = new TextDisplay(`0 ${this.winUnit}S`, {
       width: 80,
       height: 30,
       fontSize: 11,
@@ -143,9 +206,23 @@ export class GameUI extends PIXI.Container {
       borderColor: 0xe74c3c,
     });
 
+    this.freeSpinsDisplay = new TextDisplay("FREE SPINS 0/0", {
+      width: 160,
+      height: 26,
+      fontSize: 13,
+      fontColor: 0xfeca57,
+      backgroundColor: 0x3c0a5a,
+      borderColor: 0xfeca57,
+    });
+    this.freeSpinsDisplay.visible = false;
+
     this.addChild(this.spinButton);
     this.addChild(this.increaseBetButton);
     this.addChild(this.decreaseBetButton);
+    this.addChild(this.increaseLinesButton);
+    this.addChild(this.decreaseLinesButton);
+    this.addChild(this.linesDisplay);
+    this.addChild(this.totalBetDisplay);
     this.addChild(this.instantPlayToggle);
     this.addChild(this.balanceDisplay);
     this.addChild(this.betInput);
@@ -153,6 +230,7 @@ export class GameUI extends PIXI.Container {
     this.addChild(this.lastWinDisplay);
     this.addChild(this.linesWonDisplay);
     this.addChild(this.multiplierDisplay);
+    this.addChild(this.freeSpinsDisplay);
   }
 
   private setupLayout(): void {
@@ -178,6 +256,18 @@ export class GameUI extends PIXI.Container {
     this.increaseBetButton.x = betControlsX + 25;
     this.increaseBetButton.y = centerY;
 
+    this.decreaseLinesButton.x = betControlsX - 100;
+    this.decreaseLinesButton.y = centerY - 40;
+
+    this.linesDisplay.x = betControlsX - 37;
+    this.linesDisplay.y = centerY - 40;
+
+    this.increaseLinesButton.x = betControlsX + 25;
+    this.increaseLinesButton.y = centerY - 40;
+
+    this.totalBetDisplay.x = betControlsX - 37;
+    this.totalBetDisplay.y = centerY + 35;
+
     this.balanceDisplay.x = centerX - 450;
     this.balanceDisplay.y = centerY;
 
@@ -189,11 +279,17 @@ export class GameUI extends PIXI.Container {
 
     this.instantPlayToggle.x = centerX + 450;
     this.instantPlayToggle.y = centerY + 10;
+
+    this.freeSpinsDisplay.x = centerX;
+    this.freeSpinsDisplay.y = centerY - 45;
   }
 
   private setupEventHandlers(): void {
     this.spinButton.onClick(() => {
-      if (this.stateManager.canSpin) {
+      // A round whose win could not be paid out is retried first
+      if (this.stateManager.currentState === "creditFailed") {
+        this.stateManager.retryWallet();
+      } else if (this.stateManager.canSpin) {
         SoundManager.getInstance().playButtonPressSound();
         setTimeout(() => {
           this.stateManager.spin();
@@ -204,13 +300,25 @@ export class GameUI extends PIXI.Container {
     this.increaseBetButton.onClick(() => {
       SoundManager.getInstance().playButtonPressSound();
       this.stateManager.increaseBet();
-      this.betInput.value = this.stateManager.context.currentBet.toString();
+      this.betInput.value = this.getBetInputValue();
     });
 
     this.decreaseBetButton.onClick(() => {
       SoundManager.getInstance().playButtonPressSound();
       this.stateManager.decreaseBet();
-      this.betInput.value = this.stateManager.context.currentBet.toString();
+      this.betInput.value = this.getBetInputValue();
+    });
+
+    this.increaseLinesButton.onClick(() => {
+      SoundManager.getInstance().playButtonPressSound();
+      this.stateManager.increaseLines();
+      this.betInput.value = this.getBetInputValue();
+    });
+
+    this.decreaseLinesButton.onClick(() => {
+      SoundManager.getInstance().playButtonPressSound();
+      this.stateManager.decreaseLines();
+      this.betInput.value = this.getBetInputValue();
     });
 
     this.betInput.onChange((value: string) => {
@@ -218,7 +326,7 @@ export class GameUI extends PIXI.Container {
         this.updateUI(this.stateManager.context);
         return;
       }
-      const numValue = parseInt(value) || 0;
+      const numValue = parseFloat(value) || 0;
       this.stateManager.setBet(numValue);
     });
 
@@ -226,9 +334,10 @@ export class GameUI extends PIXI.Container {
       if (value === "" || value.trim() === "") {
         return;
       }
-      const numValue = parseInt(value) || 0;
+      const numValue = parseFloat(value) || 0;
       this.stateManager.setBet(numValue);
-      this.betInput.value = numValue.toString();
+      // The bet snaps to the nearest ladder level
+      this.betInput.value = this.getBetInputValue();
     });
 
     this.instantPlayToggle.onClick((isToggled: boolean) => {
@@ -251,64 +360,122 @@ export class GameUI extends PIXI.Container {
     this.balanceDisplay.setCurrency(context.balance);
 
     const currentState = this.stateManager.currentState;
-    if (
-      context.lastWin > 0 &&
-      (currentState === "celebrating" || currentState === "idle")
+    const inFreeSpins = this.stateManager.isInFreeSpins;
+    const isPayingOut =
+      currentState === "crediting" ||
+      currentState === "creditRetry" ||
+      currentState === "creditFailed";
+    if (inFreeSpins) {
+      // The feature total builds up across the free spins
+      this.winDisplay.setCurrency(context.bonusWin);
+    } else if (
+      MoneyMath.isPositive(context.lastWin) &&
+      (currentState === "celebrating" || currentState === "idle" || isPayingOut)
     ) {
       this.winDisplay.setCurrency(context.lastWin);
     } else {
-      this.winDisplay.setCurrency(0);
+      this.winDisplay.setCurrency(MoneyMath.zero(context.lastWin.currency));
+    }
+
+    this.freeSpinsDisplay.visible = inFreeSpins;
+    if (inFreeSpins) {
+      const played = context.freeSpinsAwarded - context.freeSpinsRemaining;
+      this.freeSpinsDisplay.setText(
+        `FREE SPINS ${played}/${context.freeSpinsAwarded}`
+      );
     }
 
-    const totalProfitLoss = context.balance - this.initialBalance;
-    const profitLossText =
-      totalProfitLoss >= 0
-        ? `+$${totalProfitLoss}`
-        : `-$${Math.abs(totalProfitLoss)}`;
-    this.lastWinDisplay.setText(profitLossText);
+    // Negative amounts are formatted with their sign
+    const totalProfitLoss = MoneyMath.subtract(
+      context.balance,
+      this.initialBalance
+    );
+    this.lastWinDisplay.setText(
+      `${totalProfitLoss.minor >= 0 ? "+" : ""}${MoneyMath.format(totalProfitLoss)}`
+    );
 
     this.updateWinInformation(context);
 
+    this.linesDisplay.setText(
+      context.activeLines === 1 ? "1 LINE" : `${context.activeLines} LINES`
+    );
+    this.totalBetDisplay.setText(
+      this.isLineGame
+        ? `TOTAL BET ${MoneyMath.format(context.currentBet)} (${context.coinsPerLine} x ${context.activeLines})`
+        : `TOTAL BET ${MoneyMath.format(context.currentBet)}`
+    );
+
     // currentState is already declared above
 
-    const betExceedsBalance = context.currentBet > context.balance;
+    const betExceedsBalance =
+      MoneyMath.compare(context.currentBet, context.balance) > 0;
     const invalidBet =
-      context.currentBet <= 0 ||
+      !MoneyMath.isPositive(context.currentBet) ||
       this.betInput.value === "" ||
       this.betInput.value.trim() === "";
 
     this.spinButton.enabled =
-      context.canSpin &&
-      currentState === "idle" &&
-      !betExceedsBalance &&
-      !invalidBet;
-
-    if (context.isSpinning) {
+      currentState === "creditFailed" ||
+      (context.canSpin &&
+        currentState === "idle" &&
+        !betExceedsBalance &&
+        !invalidBet);
+
+    if (currentState === "creditFailed") {
+      this.spinButton.setTextWithFontSize("RETRY", 18);
+    } else if (
+      currentState === "debitRetry" ||
+      currentState === "creditRetry"
+    ) {
+      this.spinButton.setTextWithFontSize("RETRYING...", 14);
+    } else if (currentState === "insufficientFunds") {
+      this.spinButton.setTextWithFontSize("NO FUNDS", 18);
+    } else if (inFreeSpins) {
+      this.spinButton.setTextWithFontSize("FREE SPINS", 16);
+    } else if (
+      context.isSpinning ||
+      currentState === "debiting" ||
+      isPayingOut
+    ) {
       this.spinButton.setTextWithFontSize("SPINNING...", 18);
     } else if (invalidBet) {
       this.spinButton.setTextWithFontSize("ENTER BET", 16);
     } else if (betExceedsBalance) {
       this.spinButton.setTextWithFontSize("BET TOO HIGH", 14);
-    } else if (!context.canSpin && context.balance < context.currentBet) {
+    } else if (
+      !context.canSpin &&
+      MoneyMath.compare(context.balance, context.currentBet) < 0
+    ) {
       this.spinButton.setTextWithFontSize("NO FUNDS", 18);
     } else {
       this.spinButton.setTextWithFontSize("SPIN", 18);
     }
 
-    this.increaseBetButton.enabled =
-      currentState === "idle" && context.balance >= context.currentBet + 5;
-
-    this.decreaseBetButton.enabled =
-      currentState === "idle" && context.currentBet > 1;
+    // Disabled at the ends of the bet ladder and line range
+    this.increaseBetButton.enabled = this.stateManager.can({
+      type: "INCREASE_BET",
+    });
+    this.decreaseBetButton.enabled = this.stateManager.can({
+      type: "DECREASE_BET",
+    });
+    this.increaseLinesButton.enabled = this.stateManager.can({
+      type: "INCREASE_LINES",
+    });
+    this.decreaseLinesButton.enabled = this.stateManager.can({
+      type: "DECREASE_LINES",
+    });
 
     this.instantPlayToggle.enabled = currentState === "idle";
 
-    if (context.lastWin > 0 && currentState === "celebrating") {
+    if (
+      MoneyMath.isPositive(context.lastWin) &&
+      currentState === "celebrating"
+    ) {
       this.animateWin(context.lastWin);
     }
   }
 
-  private animateWin(_winAmount: number): void {
+  private animateWin(_winAmount: Money): void {
     this.winDisplay.flash(0xf1c40f, 0.5);
     this.winDisplay.pulse(1.3, 0.4);
 
@@ -338,13 +505,13 @@ export class GameUI extends PIXI.Container {
     const hasWins = this.currentWinInfo.linesWon > 0;
     const isShowingWins =
       currentState === "celebrating" ||
-      (context.lastWin > 0 && currentState === "idle");
+      (MoneyMath.isPositive(context.lastWin) && currentState === "idle");
 
     if (hasWins && isShowingWins) {
       const lineText =
         this.currentWinInfo.linesWon === 1
-          ? "1 LINE"
-          : `${this.currentWinInfo.linesWon} LINES`;
+          ? `1 ${this.winUnit}`
+          : `${this.currentWinInfo.linesWon} ${this.winUnit}S`;
       this.linesWonDisplay.setText(lineText);
 
       this.multiplierDisplay.setText(`${this.currentWinInfo.maxMultiplier}X`);
@@ -353,23 +520,28 @@ export class GameUI extends PIXI.Container {
       this.multiplierDisplay.alpha = 1.0;
     } else if (!isShowingWins) {
       this.currentWinInfo = { linesWon: 0, maxMultiplier: 0 };
-      this.linesWonDisplay.setText("0 LINES");
+      this.linesWonDisplay.setText(`0 ${this.winUnit}S`);
       this.multiplierDisplay.setText("0X");
       this.linesWonDisplay.alpha = 0.5;
       this.multiplierDisplay.alpha = 0.5;
     }
   }
 
-  public updateBalance(newBalance: number): void {
+  // The bet input takes and shows total bets in major units
+  private getBetInputValue(): string {
+    return MoneyMath.toMajor(this.stateManager.context.currentBet).toString();
+  }
+
+  public updateBalance(newBalance: Money): void {
     this.balanceDisplay.animateCurrency(newBalance);
   }
 
-  public updateTotalWin(newTotal: number): void {
+  public updateTotalWin(newTotal: Money): void {
     this.winDisplay.animateCurrency(newTotal);
   }
 
-  public showWin(amount: number): void {
-    this.lastWinDisplay.setText(`Last: $${amount}`);
+  public showWin(amount: Money): void {
+    this.lastWinDisplay.setText(`Last: ${MoneyMath.format(amount)}`);
     this.animateWin(amount);
   }
 
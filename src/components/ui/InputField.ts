@@ -8,6 +8,8 @@ interface InputFieldOptions {
   backgroundColor?: number;
   borderColor?: number;
   borderWidth?: number;
+  /** Accept one decimal point, e.g. for money amounts */
+  allowDecimal?: boolean;
 }
 
 export class InputField extends PIXI.Container {
@@ -21,6 +23,7 @@ export class InputField extends PIXI.Container {
   private _height: number;
   private _backgroundColor: number;
   private _borderColor: number;
+  private _allowDecimal: boolean;
 
   constructor(initialValue: string = "", options: InputFieldOptions = {}) {
     super();
@@ -33,12 +36,14 @@ export class InputField extends PIXI.Container {
       backgroundColor = 0x34495e,
       borderColor = 0x7f8c8d,
       borderWidth = 1,
+      allowDecimal = false,
     } = options;
 
     this._width = width;
     this._height = height;
     this._backgroundColor = backgroundColor;
     this._borderColor = borderColor;
+    this._allowDecimal = allowDecimal;
 
     this.background = new PIXI.Graphics();
     this.background.rect(0, 0, width, height);
@@ -89,7 +94,12 @@ export class InputField extends PIXI.Container {
           this._value = this._value.slice(0, -1);
           this.updateDisplay();
           this.onChangeCallback?.(this._value);
-        } else if (event.key.match(/[0-9]/)) {
+        } else if (
+          event.key.match(/[0-9]/) ||
+          (event.key === "." &&
+            this._allowDecimal &&
+            !this._value.includes("."))
+        ) {
           if (this._value.length < 10) {
             this._value += event.key;
             this.updateDisplay();
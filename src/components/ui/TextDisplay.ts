@@ -1,5 +1,7 @@
 import * as PIXI from "pixi.js";
 import { gsap } from "gsap";
+import type { Money } from "../../types";
+import { MoneyMath } from "../../game/logic/MoneyMath";
 
 export interface TextDisplayOptions {
   fontSize?: number;
@@ -22,6 +24,8 @@ export class TextDisplay extends PIXI.Container {
   private textField: PIXI.Text;
   private options: Required<TextDisplayOptions>;
   private _value: string | number = "";
+  // Last amount shown by setCurrency, where currency animations start
+  private _money: Money | null = null;
 
   constructor(
     initialValue: string | number = "",
@@ -151,36 +155,32 @@ export class TextDisplay extends PIXI.Container {
     this.value = `${prefix}${formatted}${suffix}`;
   }
 
-  setCurrency(value: number, symbol: string = "$"): void {
-    this.setFormattedNumber(value, symbol);
+  // Localised amount through Intl.NumberFormat, e.g. $1,234.50 or ¥1,235
+  setCurrency(value: Money): void {
+    this.value = MoneyMath.format(value);
+    this._money = value;
   }
 
-  // Animate currency change
-  animateCurrency(
-    targetValue: number,
-    symbol: string = "$",
-    duration: number = 1
-  ): Promise<void> {
+  // Animate currency change, counting in minor units
+  animateCurrency(targetValue: Money, duration: number = 1): Promise<void> {
     return new Promise((resolve) => {
       const startValue =
-        typeof this._value === "string"
-          ? parseFloat(this._value.replace(/[^0-9.-]+/g, "")) || 0
-          : typeof this._value === "number"
-          ? this._value
+        this._money?.currency === targetValue.currency
+          ? this._money.minor
           : 0;
 
       gsap.to(
         { value: startValue },
         {
-          value: targetValue,
+          value: targetValue.minor,
           duration,
           ease: "power2.out",
           onUpdate: (tween) => {
             const currentValue = Math.round(tween.targets()[0].value);
-            this.setCurrency(currentValue, symbol);
+            this.setCurrency({ ...targetValue, minor: currentValue });
           },
           onComplete: () => {
-            this.setCurrency(targetValue, symbol);
+            this.setCurrency(targetValue);
             resolve();
           },
         }
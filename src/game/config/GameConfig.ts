@@ -1,20 +1,36 @@
+import { SymbolType } from "../../types";
 import type { GameConfig } from "../../types";
-import { PAYLINE_CONFIGS } from "./PaylineConfig";
+import { getPaylinesForGrid } from "./PaylineConfig";
 import { SYMBOL_CONFIGS } from "../symbols/SymbolConfig";
+import { getReelStripsForGrid } from "./ReelStrips";
+
+// Grid size; paylines and reel strips follow it
+const REEL_COUNT = 5;
+const ROW_COUNT = 3;
 
 export const GAME_CONFIG: GameConfig = {
   reels: {
-    count: 5,
-    rows: 3,
+    count: REEL_COUNT,
+    rows: ROW_COUNT,
     symbolHeight: 194,
     symbolWidth: 225,
   },
-  paylines: PAYLINE_CONFIGS,
+  paylines: getPaylinesForGrid(REEL_COUNT, ROW_COUNT),
+  evaluationMode: "lines",
+  winPolicy: "containment",
+  paylineDirection: "leftToRight",
+  maxWin: 5000,
+  currency: {
+    code: "USD",
+    decimals: 2,
+  },
   betting: {
-    minBet: 1,
+    minBet: 0.2,
     maxBet: 100,
     defaultBet: 20,
     linesPerSpin: 20,
+    coinValue: 0.01,
+    betLevels: [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5],
   },
   animations: {
     spinDuration: 1000,
@@ -22,6 +38,25 @@ export const GAME_CONFIG: GameConfig = {
     winCelebrationDuration: 2000,
   },
   symbols: SYMBOL_CONFIGS,
+  reelStrips: getReelStripsForGrid(REEL_COUNT),
+  freeSpins: {
+    triggerSymbol: SymbolType.SCATTER,
+    awards: {
+      3: 8,
+      4: 12,
+      5: 20,
+    },
+    retriggerAwards: {
+      3: 5,
+      4: 8,
+      5: 12,
+    },
+    winMultiplier: 2,
+  },
+  cascade: {
+    enabled: false,
+    multipliers: [1, 2, 3, 5],
+  },
 };
 
 export const LAYOUT = {
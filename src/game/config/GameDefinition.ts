@@ -0,0 +1,170 @@
+import type {
+  GameConfig,
+  GameDefinition,
+  GameDefinitionSymbol,
+  PaylineConfig,
+  SymbolConfig,
+} from "../../types";
+import { GAME_CONFIG } from "./GameConfig";
+import { getPaylinesForGrid } from "./PaylineConfig";
+import { SYMBOL_CONFIGS } from "../symbols/SymbolConfig";
+import { GAME_DEFINITION_VERSION } from "./GameDefinitionValidator";
+
+function toSymbolConfig(
+  symbol: GameDefinitionSymbol,
+  definition: GameDefinition
+): SymbolConfig {
+  const clusterPayouts = definition.clusterPaytable?.[symbol.type];
+
+  return {
+    type: symbol.type,
+    name: symbol.name,
+    rarity: symbol.weight,
+    payoutMultipliers: { ...definition.paytable[symbol.type] },
+    imagePath: symbol.imagePath,
+    ...(clusterPayouts ? { clusterPayouts: { ...clusterPayouts } } : {}),
+    ...(symbol.wild ? { wild: { ...symbol.wild } } : {}),
+    ...(symbol.scatter ? { scatter: true } : {}),
+  };
+}
+
+function toPaylineConfigs(definition: GameDefinition): PaylineConfig[] {
+  if (!definition.paylines) {
+    return getPaylinesForGrid(definition.grid.reels, definition.grid.rows);
+  }
+
+  return definition.paylines.map((payline) => ({
+    id: payline.id,
+    name: payline.name,
+    positions: payline.rows.map((row, reel) => ({ reel, row })),
+  }));
+}
+
+/**
+ * Replace the built-in game with a validated definition. Must run before
+ * any game object reads the config.
+ */
+export function applyGameDefinition(definition: GameDefinition): void {
+  const { grid, features } = definition;
+
+  // Symbol helpers read SYMBOL_CONFIGS directly, so it is updated in place
+  SYMBOL_CONFIGS.splice(
+    0,
+    SYMBOL_CONFIGS.length,
+    ...definition.symbols.map((symbol) => toSymbolConfig(symbol, definition))
+  );
+  GAME_CONFIG.symbols = SYMBOL_CONFIGS;
+
+  GAME_CONFIG.reels = {
+    count: grid.reels,
+    rows: grid.rows,
+    symbolHeight: GAME_CONFIG.reels.symbolHeight,
+    symbolWidth: GAME_CONFIG.reels.symbolWidth,
+    ...(grid.variableRows ? { variableRows: { ...grid.variableRows } } : {}),
+  };
+  GAME_CONFIG.paylines = toPaylineConfigs(definition);
+  GAME_CONFIG.evaluationMode = definition.evaluationMode ?? "lines";
+  GAME_CONFIG.winPolicy = definition.winPolicy ?? "containment";
+  GAME_CONFIG.paylineDirection = definition.paylineDirection ?? "leftToRight";
+  GAME_CONFIG.betting = { ...definition.betting };
+
+  if (definition.currency) {
+    GAME_CONFIG.currency = { ...definition.currency };
+  } else {
+    delete GAME_CONFIG.currency;
+  }
+
+  if (definition.maxWin !== undefined) {
+    GAME_CONFIG.maxWin = definition.maxWin;
+  } else {
+    delete GAME_CONFIG.maxWin;
+  }
+
+  if (definition.animations) {
+    GAME_CONFIG.animations = { ...definition.animations };
+  }
+
+  if (definition.reelStrips) {
+    GAME_CONFIG.reelStrips = definition.reelStrips.map((symbols) => ({
+      symbols: [...symbols],
+    }));
+  } else {
+    delete GAME_CONFIG.reelStrips;
+  }
+
+  if (features?.freeSpins) {
+    GAME_CONFIG.freeSpins = features.freeSpins;
+  } else {
+    delete GAME_CONFIG.freeSpins;
+  }
+
+  if (features?.cascade) {
+    GAME_CONFIG.cascade = features.cascade;
+  } else {
+    delete GAME_CONFIG.cascade;
+  }
+}
+
+/**
+ * Describe a game config as a definition, e.g. to export the built-in game
+ * as a starting point for a new one
+ */
+export function createGameDefinition(
+  id: string,
+  name: string,
+  config: GameConfig = GAME_CONFIG
+): GameDefinition {
+  const paytable: GameDefinition["paytable"] = {};
+  const clusterPaytable: NonNullable<GameDefinition["clusterPaytable"]> = {};
+
+  const symbols = config.symbols.map((symbol): GameDefinitionSymbol => {
+    paytable[symbol.type] = { ...symbol.payoutMultipliers };
+    if (symbol.clusterPayouts) {
+      clusterPaytable[symbol.type] = { ...symbol.clusterPayouts };
+    }
+
+    return {
+      type: symbol.type,
+      name: symbol.name,
+      weight: symbol.rarity,
+      imagePath: symbol.imagePath,
+      ...(symbol.wild ? { wild: { ...symbol.wild } } : {}),
+      ...(symbol.scatter ? { scatter: true } : {}),
+    };
+  });
+
+  const { variableRows } = config.reels;
+
+  return {
+    version: GAME_DEFINITION_VERSION,
+    id,
+    name,
+    grid: {
+      reels: config.reels.count,
+      rows: config.reels.rows,
+      ...(variableRows ? { variableRows: { ...variableRows } } : {}),
+    },
+    evaluationMode: config.evaluationMode ?? "lines",
+    winPolicy: config.winPolicy ?? "containment",
+    paylineDirection: config.paylineDirection ?? "leftToRight",
+    ...(config.maxWin !== undefined ? { maxWin: config.maxWin } : {}),
+    ...(config.currency ? { currency: { ...config.currency } } : {}),
+    symbols,
+    paytable,
+    ...(Object.keys(clusterPaytable).length > 0 ? { clusterPaytable } : {}),
+    paylines: config.paylines.map((payline) => ({
+      id: payline.id,
+      name: payline.name,
+      rows: payline.positions.map((position) => position.row),
+    })),
+    ...(config.reelStrips
+      ? { reelStrips: config.reelStrips.map((strip) => [...strip.symbols]) }
+      : {}),
+    betting: { ...config.betting },
+    animations: { ...config.animations },
+    features: {
+      ...(config.freeSpins ? { freeSpins: config.freeSpins } : {}),
+      ...(config.cascade ? { cascade: config.cascade } : {}),
+    },
+  };
+}
@@ -0,0 +1,676 @@
+import { SymbolType } from "../../types";
+import type { GameDefinition } from "../../types";
+
+export const GAME_DEFINITION_VERSION = 1;
+
+export interface ValidationIssue {
+  /** Location of the offending value, e.g. `symbols[2].weight` */
+  path: string;
+  message: string;
+}
+
+export class GameDefinitionError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid game definition:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "GameDefinitionError";
+    this.issues = issues;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const SYMBOL_TYPES = new Set<string>(Object.values(SymbolType));
+const EVALUATION_MODES = new Set(["lines", "ways", "cluster"]);
+const PAYLINE_DIRECTIONS = new Set(["leftToRight", "rightToLeft", "bothWays"]);
+const WIN_POLICIES = new Set([
+  "payAll",
+  "highestPerLine",
+  "highestPerSymbol",
+  "containment",
+]);
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return isNonNegativeNumber(value) && value > 0;
+}
+
+// Whether a major unit amount is a whole number of minor units
+function isWholeMinorUnits(value: number, decimals: number): boolean {
+  const minor = value * 10 ** decimals;
+  return Math.abs(minor - Math.round(minor)) < 1e-6;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Checks untrusted JSON against the game definition format and reports
+ * every problem with the path of the offending value.
+ */
+export class GameDefinitionValidator {
+  static validate(data: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const report = (path: string, message: string) => {
+      issues.push({ path: path || "(root)", message });
+    };
+
+    if (!isObject(data)) {
+      report("", "must be an object");
+      return issues;
+    }
+
+    if (data.version !== GAME_DEFINITION_VERSION) {
+      report(
+        "version",
+        `unsupported version ${JSON.stringify(data.version)}, expected ${GAME_DEFINITION_VERSION}`
+      );
+      return issues;
+    }
+
+    this.validateString(data, "id", "", report);
+    this.validateString(data, "name", "", report);
+
+    const grid = this.validateGrid(data.grid, report);
+    const symbols = this.validateSymbols(data.symbols, report);
+
+    const evaluationMode = data.evaluationMode ?? "lines";
+    if (!EVALUATION_MODES.has(evaluationMode as string)) {
+      report("evaluationMode", "must be one of lines, ways, cluster");
+    } else if (grid?.variableRows && evaluationMode === "lines") {
+      report("evaluationMode", "variable rows need ways or cluster");
+    }
+
+    if (
+      data.winPolicy !== undefined &&
+      !WIN_POLICIES.has(data.winPolicy as string)
+    ) {
+      report(
+        "winPolicy",
+        "must be one of payAll, highestPerLine, highestPerSymbol, containment"
+      );
+    }
+
+    if (
+      data.paylineDirection !== undefined &&
+      !PAYLINE_DIRECTIONS.has(data.paylineDirection as string)
+    ) {
+      report(
+        "paylineDirection",
+        "must be one of leftToRight, rightToLeft, bothWays"
+      );
+    }
+
+    if (data.maxWin !== undefined && !isPositiveNumber(data.maxWin)) {
+      report("maxWin", "must be a positive number");
+    }
+
+    this.validatePaytable(data.paytable, "paytable", symbols, report, true);
+    if (data.clusterPaytable !== undefined) {
+      this.validatePaytable(
+        data.clusterPaytable,
+        "clusterPaytable",
+        symbols,
+        report,
+        false
+      );
+    }
+
+    if (data.paylines !== undefined) {
+      this.validatePaylines(data.paylines, grid, report);
+    }
+
+    if (data.reelStrips !== undefined) {
+      this.validateReelStrips(data.reelStrips, grid, symbols, report);
+    }
+
+    // Betting amounts are checked against the currency's minor units
+    let decimals = 2;
+    if (
+      data.currency !== undefined &&
+      this.validateCurrency(data.currency, report)
+    ) {
+      decimals = (data.currency as JsonObject).decimals as number;
+    }
+
+    this.validateBetting(data.betting, decimals, report);
+
+    if (data.animations !== undefined) {
+      this.validateAnimations(data.animations, report);
+    }
+
+    if (data.features !== undefined) {
+      this.validateFeatures(data.features, symbols, report);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Validate and return the definition, throwing every issue at once
+   */
+  static parse(data: unknown): GameDefinition {
+    const issues = this.validate(data);
+    if (issues.length > 0) {
+      throw new GameDefinitionError(issues);
+    }
+    return data as GameDefinition;
+  }
+
+  private static validateString(
+    object: JsonObject,
+    key: string,
+    path: string,
+    report: (path: string, message: string) => void
+  ): void {
+    const value = object[key];
+    if (typeof value !== "string" || value.trim() === "") {
+      report(childPath(path, key), "must be a non-empty string");
+    }
+  }
+
+  private static validateGrid(
+    grid: unknown,
+    report: (path: string, message: string) => void
+  ): GameDefinition["grid"] | null {
+    if (!isObject(grid)) {
+      report("grid", "must be an object");
+      return null;
+    }
+
+    let valid = true;
+    for (const key of ["reels", "rows"]) {
+      if (!isPositiveInteger(grid[key])) {
+        report(childPath("grid", key), "must be a positive integer");
+        valid = false;
+      }
+    }
+
+    const variableRows = grid.variableRows;
+    if (variableRows !== undefined) {
+      if (!isObject(variableRows)) {
+        report("grid.variableRows", "must be an object");
+        valid = false;
+      } else if (
+        !isPositiveInteger(variableRows.min) ||
+        !isPositiveInteger(variableRows.max)
+      ) {
+        report("grid.variableRows", "min and max must be positive integers");
+        valid = false;
+      } else if (variableRows.min > variableRows.max) {
+        report("grid.variableRows.min", "must not exceed max");
+        valid = false;
+      }
+    }
+
+    return valid ? (grid as GameDefinition["grid"]) : null;
+  }
+
+  /**
+   * Returns the declared symbol types, so later sections can be checked
+   * against them
+   */
+  private static validateSymbols(
+    symbols: unknown,
+    report: (path: string, message: string) => void
+  ): Set<string> {
+    const declared = new Set<string>();
+
+    if (!Array.isArray(symbols) || symbols.length === 0) {
+      report("symbols", "must be a non-empty array");
+      return declared;
+    }
+
+    symbols.forEach((symbol, index) => {
+      const path = childPath("symbols", index);
+      if (!isObject(symbol)) {
+        report(path, "must be an object");
+        return;
+      }
+
+      if (!SYMBOL_TYPES.has(symbol.type as string)) {
+        report(
+          childPath(path, "type"),
+          `unknown symbol type ${JSON.stringify(symbol.type)}`
+        );
+      } else if (declared.has(symbol.type as string)) {
+        report(
+          childPath(path, "type"),
+          `duplicate symbol type "${symbol.type}"`
+        );
+      } else {
+        declared.add(symbol.type as string);
+      }
+
+      this.validateString(symbol, "name", path, report);
+      this.validateString(symbol, "imagePath", path, report);
+
+      if (!isNonNegativeNumber(symbol.weight)) {
+        report(childPath(path, "weight"), "must be a non-negative number");
+      }
+
+      if (symbol.scatter !== undefined && typeof symbol.scatter !== "boolean") {
+        report(childPath(path, "scatter"), "must be a boolean");
+      }
+
+      if (symbol.wild !== undefined) {
+        const wildPath = childPath(path, "wild");
+        if (!isObject(symbol.wild)) {
+          report(wildPath, "must be an object");
+        } else if (
+          symbol.wild.multiplier !== undefined &&
+          !isPositiveNumber(symbol.wild.multiplier)
+        ) {
+          report(
+            childPath(wildPath, "multiplier"),
+            "must be a positive number"
+          );
+        }
+      }
+    });
+
+    // Substitutes may name symbols declared after the wild
+    symbols.forEach((symbol, index) => {
+      if (!isObject(symbol) || !isObject(symbol.wild)) {
+        return;
+      }
+
+      const substitutes = symbol.wild.substitutes;
+      const path = `${childPath("symbols", index)}.wild.substitutes`;
+      if (substitutes === undefined) {
+        return;
+      }
+      if (!Array.isArray(substitutes)) {
+        report(path, "must be an array of symbol types");
+        return;
+      }
+      substitutes.forEach((substitute, substituteIndex) => {
+        if (!declared.has(substitute as string)) {
+          report(
+            childPath(path, substituteIndex),
+            `undeclared symbol ${JSON.stringify(substitute)}`
+          );
+        }
+      });
+    });
+
+    return declared;
+  }
+
+  private static validatePaytable(
+    paytable: unknown,
+    path: string,
+    symbols: Set<string>,
+    report: (path: string, message: string) => void,
+    required: boolean
+  ): void {
+    if (!isObject(paytable)) {
+      report(path, "must be an object");
+      return;
+    }
+
+    if (required && Object.keys(paytable).length === 0) {
+      report(path, "must list at least one paying symbol");
+    }
+
+    Object.entries(paytable).forEach(([symbol, pays]) => {
+      const symbolPath = childPath(path, symbol);
+      if (!symbols.has(symbol)) {
+        report(symbolPath, `undeclared symbol "${symbol}"`);
+      }
+      this.validateCountTable(pays, symbolPath, report, isNonNegativeNumber);
+    });
+  }
+
+  /**
+   * Tables keyed by a minimum count, e.g. pays or free spins awards
+   */
+  private static validateCountTable(
+    table: unknown,
+    path: string,
+    report: (path: string, message: string) => void,
+    isValidValue: (value: unknown) => boolean
+  ): void {
+    if (!isObject(table)) {
+      report(path, "must be an object keyed by count");
+      return;
+    }
+
+    Object.entries(table).forEach(([count, value]) => {
+      const countPath = childPath(path, count);
+      if (!isPositiveInteger(Number(count))) {
+        report(countPath, "key must be a positive integer count");
+      } else if (!isValidValue(value)) {
+        report(countPath, `invalid value ${JSON.stringify(value)}`);
+      }
+    });
+  }
+
+  private static validatePaylines(
+    paylines: unknown,
+    grid: GameDefinition["grid"] | null,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!Array.isArray(paylines)) {
+      report("paylines", "must be an array");
+      return;
+    }
+
+    const ids = new Set<number>();
+
+    paylines.forEach((payline, index) => {
+      const path = childPath("paylines", index);
+      if (!isObject(payline)) {
+        report(path, "must be an object");
+        return;
+      }
+
+      if (!isPositiveInteger(payline.id)) {
+        report(childPath(path, "id"), "must be a positive integer");
+      } else if (ids.has(payline.id)) {
+        report(childPath(path, "id"), `duplicate payline id ${payline.id}`);
+      } else {
+        ids.add(payline.id);
+      }
+
+      this.validateString(payline, "name", path, report);
+
+      const rows = payline.rows;
+      const rowsPath = childPath(path, "rows");
+      if (!Array.isArray(rows)) {
+        report(rowsPath, "must be an array of row indices");
+        return;
+      }
+      if (grid && rows.length !== grid.reels) {
+        report(rowsPath, `must have one row per reel (${grid.reels})`);
+      }
+      rows.forEach((row, reel) => {
+        if (
+          !Number.isInteger(row) ||
+          row < 0 ||
+          (grid !== null && row >= grid.rows)
+        ) {
+          report(childPath(rowsPath, reel), `row ${row} is outside the grid`);
+        }
+      });
+    });
+  }
+
+  private static validateReelStrips(
+    reelStrips: unknown,
+    grid: GameDefinition["grid"] | null,
+    symbols: Set<string>,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!Array.isArray(reelStrips)) {
+      report("reelStrips", "must be an array of strips");
+      return;
+    }
+
+    if (grid && reelStrips.length < grid.reels) {
+      report(
+        "reelStrips",
+        `has ${reelStrips.length} strips, the grid has ${grid.reels} reels`
+      );
+    }
+
+    reelStrips.forEach((strip, index) => {
+      const path = childPath("reelStrips", index);
+      if (!Array.isArray(strip) || strip.length === 0) {
+        report(path, "must be a non-empty array of symbol types");
+        return;
+      }
+      strip.forEach((symbol, stop) => {
+        if (!symbols.has(symbol as string)) {
+          report(
+            childPath(path, stop),
+            `undeclared symbol ${JSON.stringify(symbol)}`
+          );
+        }
+      });
+    });
+  }
+
+  private static validateCurrency(
+    currency: unknown,
+    report: (path: string, message: string) => void
+  ): boolean {
+    if (!isObject(currency)) {
+      report("currency", "must be an object");
+      return false;
+    }
+
+    let valid = true;
+    if (
+      typeof currency.code !== "string" ||
+      !/^[A-Z][A-Z0-9]{1,9}$/.test(currency.code)
+    ) {
+      report("currency.code", "must be an upper case currency code");
+      valid = false;
+    }
+    const { decimals } = currency;
+    if (
+      typeof decimals !== "number" ||
+      !Number.isInteger(decimals) ||
+      decimals < 0 ||
+      decimals > 8
+    ) {
+      report("currency.decimals", "must be an integer from 0 to 8");
+      valid = false;
+    }
+    if (currency.locale !== undefined) {
+      try {
+        Intl.getCanonicalLocales(currency.locale as string);
+      } catch {
+        report("currency.locale", "must be a valid locale tag");
+      }
+    }
+    return valid;
+  }
+
+  private static validateBetting(
+    betting: unknown,
+    decimals: number,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isObject(betting)) {
+      report("betting", "must be an object");
+      return;
+    }
+
+    const { minBet, maxBet, defaultBet, linesPerSpin } = betting;
+    let valid = true;
+    for (const key of ["minBet", "maxBet", "defaultBet"]) {
+      const value = betting[key];
+      if (!isPositiveNumber(value)) {
+        report(childPath("betting", key), "must be a positive number");
+        valid = false;
+      } else if (!isWholeMinorUnits(value, decimals)) {
+        report(
+          childPath("betting", key),
+          `must be a whole number of minor units (${decimals} decimals)`
+        );
+      }
+    }
+    if (!isPositiveInteger(linesPerSpin)) {
+      report("betting.linesPerSpin", "must be a positive integer");
+    }
+    if (
+      betting.coinValue !== undefined &&
+      !isPositiveNumber(betting.coinValue)
+    ) {
+      report("betting.coinValue", "must be a positive number");
+    } else if (
+      betting.coinValue !== undefined &&
+      !isWholeMinorUnits(betting.coinValue, decimals)
+    ) {
+      report(
+        "betting.coinValue",
+        `must be a whole number of minor units (${decimals} decimals)`
+      );
+    }
+    if (betting.betLevels !== undefined) {
+      this.validateBetLevels(
+        betting.betLevels,
+        isPositiveNumber(betting.coinValue) ? betting.coinValue : 1,
+        report
+      );
+    }
+
+    if (!valid) {
+      return;
+    }
+    if ((minBet as number) > (maxBet as number)) {
+      report("betting.minBet", "must not exceed maxBet");
+    }
+    if (
+      (defaultBet as number) < (minBet as number) ||
+      (defaultBet as number) > (maxBet as number)
+    ) {
+      report("betting.defaultBet", "must be between minBet and maxBet");
+    }
+  }
+
+  private static validateBetLevels(
+    betLevels: unknown,
+    coinValue: number,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!Array.isArray(betLevels) || betLevels.length === 0) {
+      report("betting.betLevels", "must be a non-empty array");
+      return;
+    }
+
+    betLevels.forEach((level: unknown, index) => {
+      const path = childPath("betting.betLevels", index);
+      if (!isPositiveNumber(level)) {
+        report(path, "must be a positive number");
+        return;
+      }
+
+      const coins = level / coinValue;
+      if (Math.abs(coins - Math.round(coins)) > 1e-9) {
+        report(path, `must be a whole number of coins of ${coinValue}`);
+      }
+      const previous: unknown = betLevels[index - 1];
+      if (isPositiveNumber(previous) && level <= previous) {
+        report(path, "levels must be in ascending order");
+      }
+    });
+  }
+
+  private static validateAnimations(
+    animations: unknown,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isObject(animations)) {
+      report("animations", "must be an object");
+      return;
+    }
+
+    for (const key of [
+      "spinDuration",
+      "reelStopDelay",
+      "winCelebrationDuration",
+    ]) {
+      if (!isNonNegativeNumber(animations[key])) {
+        report(
+          childPath("animations", key),
+          "must be a non-negative number of milliseconds"
+        );
+      }
+    }
+  }
+
+  private static validateFeatures(
+    features: unknown,
+    symbols: Set<string>,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isObject(features)) {
+      report("features", "must be an object");
+      return;
+    }
+
+    const { freeSpins, cascade } = features;
+
+    if (freeSpins !== undefined) {
+      const path = "features.freeSpins";
+      if (!isObject(freeSpins)) {
+        report(path, "must be an object");
+      } else {
+        if (!symbols.has(freeSpins.triggerSymbol as string)) {
+          report(
+            childPath(path, "triggerSymbol"),
+            `undeclared symbol ${JSON.stringify(freeSpins.triggerSymbol)}`
+          );
+        }
+        this.validateCountTable(
+          freeSpins.awards,
+          childPath(path, "awards"),
+          report,
+          isPositiveInteger
+        );
+        if (freeSpins.retriggerAwards !== undefined) {
+          this.validateCountTable(
+            freeSpins.retriggerAwards,
+            childPath(path, "retriggerAwards"),
+            report,
+            isPositiveInteger
+          );
+        }
+        if (
+          freeSpins.winMultiplier !== undefined &&
+          !isPositiveNumber(freeSpins.winMultiplier)
+        ) {
+          report(childPath(path, "winMultiplier"), "must be a positive number");
+        }
+      }
+    }
+
+    if (cascade !== undefined) {
+      const path = "features.cascade";
+      if (!isObject(cascade)) {
+        report(path, "must be an object");
+      } else {
+        if (typeof cascade.enabled !== "boolean") {
+          report(childPath(path, "enabled"), "must be a boolean");
+        }
+        if (cascade.multipliers !== undefined) {
+          if (!Array.isArray(cascade.multipliers)) {
+            report(childPath(path, "multipliers"), "must be an array");
+          } else {
+            cascade.multipliers.forEach((multiplier, index) => {
+              if (!isPositiveNumber(multiplier)) {
+                report(
+                  childPath(childPath(path, "multipliers"), index),
+                  "must be a positive number"
+                );
+              }
+            });
+          }
+        }
+      }
+    }
+  }
+}
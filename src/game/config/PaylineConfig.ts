@@ -3,5 +3,17 @@ export {
   getPaylineConfig,
   getAllPaylineConfigs,
   validatePaylineConfig,
+  getPaylinesForGrid,
+  createGridPaylines,
   getPaylineCount,
 } from "./paylines/PaylineRegistry";
+export {
+  PaylineLinter,
+  formatPaylineLintReport,
+} from "./paylines/PaylineLinter";
+export type {
+  PaylineLintIssue,
+  PaylineLintReport,
+  PaylineLintSeverity,
+  PaylineOverlapStats,
+} from "./paylines/PaylineLinter";
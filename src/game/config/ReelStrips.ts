@@ -0,0 +1,254 @@
+import { SymbolType } from "../../types";
+import type { ReelStrip } from "../../types";
+
+// Symbol counts per strip follow the symbol rarity weights, 40 stops per reel
+// plus a single wild and a single scatter. The middle reel carries a stack of
+// three apples.
+export const REEL_STRIPS: ReelStrip[] = [
+  // Reel 1
+  {
+    symbols: [
+      SymbolType.APPLE,
+      SymbolType.COCONUT,
+      SymbolType.BLUEBERRY,
+      SymbolType.PEAR,
+      SymbolType.KIWI,
+      SymbolType.CHERRY,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.ORANGE,
+      SymbolType.COCONUT,
+      SymbolType.SCATTER,
+      SymbolType.APPLE,
+      SymbolType.CHERRY,
+      SymbolType.STRAWBERRY,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.APPLE,
+      SymbolType.PEAR,
+      SymbolType.COCONUT,
+      SymbolType.CHERRY,
+      SymbolType.ORANGE,
+      SymbolType.WILD,
+      SymbolType.BLUEBERRY,
+      SymbolType.KIWI,
+      SymbolType.APPLE,
+      SymbolType.COCONUT,
+      SymbolType.CHERRY,
+      SymbolType.BLUEBERRY,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.ORANGE,
+      SymbolType.PEAR,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.STRAWBERRY,
+      SymbolType.COCONUT,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.ORANGE,
+    ],
+  },
+  // Reel 2
+  {
+    symbols: [
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.COCONUT,
+      SymbolType.BLUEBERRY,
+      SymbolType.PEAR,
+      SymbolType.APPLE,
+      SymbolType.CHERRY,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.COCONUT,
+      SymbolType.SCATTER,
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.CHERRY,
+      SymbolType.PEAR,
+      SymbolType.BLUEBERRY,
+      SymbolType.STRAWBERRY,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.COCONUT,
+      SymbolType.CHERRY,
+      SymbolType.WILD,
+      SymbolType.BLUEBERRY,
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.PEAR,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.COCONUT,
+      SymbolType.KIWI,
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.PEAR,
+      SymbolType.COCONUT,
+      SymbolType.STRAWBERRY,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+    ],
+  },
+  // Reel 3
+  {
+    symbols: [
+      SymbolType.STRAWBERRY,
+      SymbolType.CHERRY,
+      SymbolType.APPLE,
+      SymbolType.APPLE,
+      SymbolType.APPLE,
+      SymbolType.ORANGE,
+      SymbolType.COCONUT,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.PEAR,
+      SymbolType.SCATTER,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.COCONUT,
+      SymbolType.ORANGE,
+      SymbolType.CHERRY,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.KIWI,
+      SymbolType.APPLE,
+      SymbolType.STRAWBERRY,
+      SymbolType.WILD,
+      SymbolType.COCONUT,
+      SymbolType.CHERRY,
+      SymbolType.BLUEBERRY,
+      SymbolType.PEAR,
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.COCONUT,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.PEAR,
+      SymbolType.COCONUT,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.KIWI,
+    ],
+  },
+  // Reel 4
+  {
+    symbols: [
+      SymbolType.BLUEBERRY,
+      SymbolType.KIWI,
+      SymbolType.CHERRY,
+      SymbolType.APPLE,
+      SymbolType.STRAWBERRY,
+      SymbolType.ORANGE,
+      SymbolType.BLUEBERRY,
+      SymbolType.COCONUT,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.SCATTER,
+      SymbolType.CHERRY,
+      SymbolType.PEAR,
+      SymbolType.BLUEBERRY,
+      SymbolType.APPLE,
+      SymbolType.COCONUT,
+      SymbolType.ORANGE,
+      SymbolType.CHERRY,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.APPLE,
+      SymbolType.WILD,
+      SymbolType.COCONUT,
+      SymbolType.CHERRY,
+      SymbolType.BLUEBERRY,
+      SymbolType.APPLE,
+      SymbolType.STRAWBERRY,
+      SymbolType.PEAR,
+      SymbolType.ORANGE,
+      SymbolType.KIWI,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.COCONUT,
+      SymbolType.KIWI,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.ORANGE,
+      SymbolType.CHERRY,
+      SymbolType.COCONUT,
+      SymbolType.PEAR,
+      SymbolType.APPLE,
+    ],
+  },
+  // Reel 5
+  {
+    symbols: [
+      SymbolType.PEAR,
+      SymbolType.BLUEBERRY,
+      SymbolType.KIWI,
+      SymbolType.APPLE,
+      SymbolType.CHERRY,
+      SymbolType.ORANGE,
+      SymbolType.BLUEBERRY,
+      SymbolType.COCONUT,
+      SymbolType.STRAWBERRY,
+      SymbolType.APPLE,
+      SymbolType.SCATTER,
+      SymbolType.KIWI,
+      SymbolType.PEAR,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.APPLE,
+      SymbolType.COCONUT,
+      SymbolType.ORANGE,
+      SymbolType.BLUEBERRY,
+      SymbolType.KIWI,
+      SymbolType.APPLE,
+      SymbolType.WILD,
+      SymbolType.PEAR,
+      SymbolType.CHERRY,
+      SymbolType.COCONUT,
+      SymbolType.BLUEBERRY,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.ORANGE,
+      SymbolType.STRAWBERRY,
+      SymbolType.CHERRY,
+      SymbolType.APPLE,
+      SymbolType.BLUEBERRY,
+      SymbolType.PEAR,
+      SymbolType.COCONUT,
+      SymbolType.APPLE,
+      SymbolType.KIWI,
+      SymbolType.BLUEBERRY,
+      SymbolType.CHERRY,
+      SymbolType.ORANGE,
+      SymbolType.APPLE,
+      SymbolType.COCONUT,
+    ],
+  },
+];
+
+/**
+ * One strip per reel of a grid. Grids with more reels than the built-in
+ * strips reuse them from the first reel on.
+ */
+export function getReelStripsForGrid(reelCount: number): ReelStrip[] {
+  return Array.from(
+    { length: reelCount },
+    (_, reel) => REEL_STRIPS[reel % REEL_STRIPS.length]
+  );
+}
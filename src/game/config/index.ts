@@ -1,8 +1,18 @@
 export { GAME_CONFIG, LAYOUT } from './GameConfig';
+export { REEL_STRIPS, getReelStripsForGrid } from './ReelStrips';
 export { 
   PAYLINE_CONFIGS, 
   getPaylineConfig, 
   getAllPaylineConfigs, 
   validatePaylineConfig, 
+  getPaylinesForGrid,
+  createGridPaylines,
   getPaylineCount 
-} from './PaylineConfig';
\ No newline at end of file
+} from './PaylineConfig';
+export { applyGameDefinition, createGameDefinition } from './GameDefinition';
+export {
+  GameDefinitionValidator,
+  GameDefinitionError,
+  GAME_DEFINITION_VERSION,
+} from './GameDefinitionValidator';
+export type { ValidationIssue } from './GameDefinitionValidator';
@@ -0,0 +1,405 @@
+import type { PaylineConfig } from "../../../types";
+import { formatNumber, formatTable } from "../../math/ReportFormatting";
+
+export type PaylineLintSeverity = "error" | "warning";
+
+export interface PaylineLintIssue {
+  severity: PaylineLintSeverity;
+  /** Offending payline; absent for issues about the whole set */
+  paylineId?: number;
+  message: string;
+}
+
+export interface PaylineOverlapStats {
+  /** Positions two paylines have in common, averaged over every pair */
+  averageSharedPositions: number;
+  maxSharedPositions: number;
+  /** Pairs sharing `maxSharedPositions` positions */
+  mostOverlappingPairs: Array<[number, number]>;
+  /**
+   * Pairs with the same first three positions, which always pay 3 of a kind
+   * together
+   */
+  sharedPrefixPairs: number;
+  /** Number of paylines through each cell, indexed [reel][row] */
+  cellCoverage: number[][];
+}
+
+export interface PaylineLintReport {
+  reelCount: number;
+  rowCount: number;
+  paylineCount: number;
+  issues: PaylineLintIssue[];
+  overlap: PaylineOverlapStats;
+}
+
+// Screen direction of a move between adjacent reels; row 0 is the top row
+type Direction = "up" | "down";
+
+interface Shape {
+  rows: number[];
+  /** Consecutive moves in the same direction collapsed into one */
+  directions: Direction[];
+  /** Index of the first reel-to-reel move, -1 for straight lines */
+  firstMove: number;
+  moveCount: number;
+}
+
+interface NameRule {
+  pattern: RegExp;
+  expected: string;
+  matches: (shape: Shape, rowCount: number) => boolean;
+}
+
+function describeShape(rows: number[]): Shape {
+  const directions: Direction[] = [];
+  let firstMove = -1;
+  let moveCount = 0;
+
+  for (let reel = 1; reel < rows.length; reel++) {
+    const delta = rows[reel] - rows[reel - 1];
+    if (delta === 0) {
+      continue;
+    }
+
+    moveCount++;
+    if (firstMove === -1) {
+      firstMove = reel - 1;
+    }
+
+    const direction: Direction = delta > 0 ? "down" : "up";
+    if (directions[directions.length - 1] !== direction) {
+      directions.push(direction);
+    }
+  }
+
+  return { rows, directions, firstMove, moveCount };
+}
+
+function hasDirections(shape: Shape, expected: Direction[]): boolean {
+  return shape.directions.join(",") === expected.join(",");
+}
+
+function hasTurn(shape: Shape, from: Direction, to: Direction): boolean {
+  return shape.directions.some(
+    (direction, index) =>
+      direction === from && shape.directions[index + 1] === to
+  );
+}
+
+function isStraightAt(shape: Shape, row: number): boolean {
+  return shape.rows.every((value) => value === row);
+}
+
+/**
+ * Shape words a payline name may use and what they promise. Directions are
+ * as drawn on screen; rules only apply when their word is in the name.
+ */
+const NAME_RULES: NameRule[] = [
+  {
+    pattern: /\btop line\b/i,
+    expected: "a straight line on the top row",
+    matches: (shape) => isStraightAt(shape, 0),
+  },
+  {
+    pattern: /\bbottom line\b/i,
+    expected: "a straight line on the bottom row",
+    matches: (shape, rowCount) => isStraightAt(shape, rowCount - 1),
+  },
+  {
+    pattern: /\bmiddle line\b/i,
+    expected: "a straight line on the middle row",
+    matches: (shape, rowCount) => isStraightAt(shape, (rowCount - 1) / 2),
+  },
+  {
+    pattern: /\brow (\d+) line\b/i,
+    expected: "a straight line",
+    matches: (shape) => shape.moveCount === 0,
+  },
+  {
+    pattern: /^(?!.*invert).*\bv[- ]shape\b/i,
+    expected: "a V: down then up",
+    matches: (shape) => hasDirections(shape, ["down", "up"]),
+  },
+  {
+    pattern: /\binverted v\b/i,
+    expected: "an inverted V: up then down",
+    matches: (shape) => hasDirections(shape, ["up", "down"]),
+  },
+  {
+    pattern: /\bw[- ]shape\b/i,
+    expected: "a W: down, up, down, up",
+    matches: (shape) => hasDirections(shape, ["down", "up", "down", "up"]),
+  },
+  {
+    pattern: /\bm[- ]shape\b/i,
+    expected: "an M: up, down, up, down",
+    matches: (shape) => hasDirections(shape, ["up", "down", "up", "down"]),
+  },
+  {
+    pattern: /\bzigzag\b/i,
+    expected: "at least two row changes",
+    matches: (shape) => shape.moveCount >= 2,
+  },
+  {
+    pattern: /\bslope\b/i,
+    expected: "moving in one direction only",
+    matches: (shape) => shape.directions.length === 1,
+  },
+  {
+    pattern: /\b(down|drop)\b/i,
+    expected: "ending lower than it starts",
+    matches: (shape) => shape.rows[shape.rows.length - 1] > shape.rows[0],
+  },
+  {
+    pattern: /\b(up|rise)\b/i,
+    expected: "ending higher than it starts",
+    matches: (shape) => shape.rows[shape.rows.length - 1] < shape.rows[0],
+  },
+  {
+    pattern: /\bpeak\b/i,
+    expected: "an up then down turn",
+    matches: (shape) => hasTurn(shape, "up", "down"),
+  },
+  {
+    pattern: /\bdip\b/i,
+    expected: "a down then up turn",
+    matches: (shape) => hasTurn(shape, "down", "up"),
+  },
+  {
+    pattern: /\bearly\b/i,
+    expected: "leaving its starting row in the first half",
+    matches: (shape) =>
+      shape.firstMove !== -1 &&
+      shape.firstMove < Math.floor((shape.rows.length - 1) / 2),
+  },
+  {
+    pattern: /\blate\b/i,
+    expected: "holding its starting row through the first half",
+    matches: (shape) =>
+      shape.firstMove >= Math.floor((shape.rows.length - 1) / 2),
+  },
+];
+
+/**
+ * Checks a payline set for structural mistakes, duplicates and names that
+ * do not describe their shape, and measures how much the lines overlap.
+ */
+export class PaylineLinter {
+  static lint(
+    paylines: PaylineConfig[],
+    reelCount: number,
+    rowCount: number
+  ): PaylineLintReport {
+    const issues: PaylineLintIssue[] = [];
+    const seenIds = new Set<number>();
+    const seenShapes = new Map<string, number>();
+    const validPaylines: PaylineConfig[] = [];
+
+    paylines.forEach((payline) => {
+      const report = (severity: PaylineLintSeverity, message: string) =>
+        issues.push({ severity, paylineId: payline.id, message });
+
+      if (seenIds.has(payline.id)) {
+        report("error", `Duplicate payline id ${payline.id}`);
+      }
+      seenIds.add(payline.id);
+
+      if (!this.lintStructure(payline, reelCount, rowCount, report)) {
+        return;
+      }
+      validPaylines.push(payline);
+
+      const rows = payline.positions.map((position) => position.row);
+      const key = rows.join(",");
+      const duplicateOf = seenShapes.get(key);
+      if (duplicateOf !== undefined) {
+        report("error", `Same shape as payline ${duplicateOf} (${key})`);
+      } else {
+        seenShapes.set(key, payline.id);
+      }
+
+      const shape = describeShape(rows);
+      NAME_RULES.forEach((rule) => {
+        if (rule.pattern.test(payline.name) && !rule.matches(shape, rowCount)) {
+          report(
+            "warning",
+            `"${payline.name}" suggests ${rule.expected}, its rows are ${key}`
+          );
+        }
+      });
+    });
+
+    return {
+      reelCount,
+      rowCount,
+      paylineCount: paylines.length,
+      issues,
+      overlap: this.calculateOverlap(validPaylines, reelCount, rowCount),
+    };
+  }
+
+  static hasErrors(report: PaylineLintReport): boolean {
+    return report.issues.some((issue) => issue.severity === "error");
+  }
+
+  /**
+   * Whether the payline crosses every reel once, left to right, within the
+   * grid's rows
+   */
+  private static lintStructure(
+    payline: PaylineConfig,
+    reelCount: number,
+    rowCount: number,
+    report: (severity: PaylineLintSeverity, message: string) => void
+  ): boolean {
+    const { positions } = payline;
+
+    if (positions.length !== reelCount) {
+      report(
+        "error",
+        `Has ${positions.length} positions, the grid has ${reelCount} reels`
+      );
+      return false;
+    }
+
+    const reels = positions.map((position) => position.reel);
+    if (reels.some((reel, index) => reel !== index)) {
+      report(
+        "error",
+        `Visits reels ${reels.join(",")} instead of left to right in order`
+      );
+      return false;
+    }
+
+    const outside = positions.filter(
+      (position) =>
+        !Number.isInteger(position.row) ||
+        position.row < 0 ||
+        position.row >= rowCount
+    );
+    if (outside.length > 0) {
+      report(
+        "error",
+        `Rows outside the grid on reels ${outside
+          .map((position) => position.reel)
+          .join(",")}`
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  private static calculateOverlap(
+    paylines: PaylineConfig[],
+    reelCount: number,
+    rowCount: number
+  ): PaylineOverlapStats {
+    const cellCoverage = Array.from({ length: reelCount }, () =>
+      new Array<number>(rowCount).fill(0)
+    );
+    paylines.forEach((payline) => {
+      payline.positions.forEach((position) => {
+        cellCoverage[position.reel][position.row]++;
+      });
+    });
+
+    let pairCount = 0;
+    let totalShared = 0;
+    let maxSharedPositions = 0;
+    let mostOverlappingPairs: Array<[number, number]> = [];
+    let sharedPrefixPairs = 0;
+    const prefixLength = Math.min(3, reelCount);
+
+    for (let a = 0; a < paylines.length; a++) {
+      for (let b = a + 1; b < paylines.length; b++) {
+        const first = paylines[a].positions;
+        const second = paylines[b].positions;
+        const shared = first.filter(
+          (position, reel) => position.row === second[reel].row
+        ).length;
+
+        pairCount++;
+        totalShared += shared;
+
+        const pair: [number, number] = [paylines[a].id, paylines[b].id];
+        if (shared > maxSharedPositions) {
+          maxSharedPositions = shared;
+          mostOverlappingPairs = [pair];
+        } else if (shared === maxSharedPositions) {
+          mostOverlappingPairs.push(pair);
+        }
+
+        if (
+          first
+            .slice(0, prefixLength)
+            .every((position, reel) => position.row === second[reel].row)
+        ) {
+          sharedPrefixPairs++;
+        }
+      }
+    }
+
+    return {
+      averageSharedPositions: pairCount > 0 ? totalShared / pairCount : 0,
+      maxSharedPositions,
+      mostOverlappingPairs,
+      sharedPrefixPairs,
+      cellCoverage,
+    };
+  }
+}
+
+export function formatPaylineLintReport(report: PaylineLintReport): string {
+  const { overlap } = report;
+
+  const issues = formatTable(
+    "Payline issues",
+    ["Severity", "Payline", "Message"],
+    report.issues.map((issue) => [
+      issue.severity,
+      issue.paylineId ?? "-",
+      issue.message,
+    ])
+  );
+
+  const summary = formatTable(
+    "Payline overlap",
+    ["Metric", "Value"],
+    [
+      ["Grid", `${report.reelCount}x${report.rowCount}`],
+      ["Paylines", report.paylineCount],
+      [
+        "Errors",
+        report.issues.filter((issue) => issue.severity === "error").length,
+      ],
+      [
+        "Warnings",
+        report.issues.filter((issue) => issue.severity === "warning").length,
+      ],
+      [
+        "Average shared positions",
+        formatNumber(overlap.averageSharedPositions, 2),
+      ],
+      ["Max shared positions", overlap.maxSharedPositions],
+      [
+        "Most overlapping pairs",
+        overlap.mostOverlappingPairs.map(([a, b]) => `${a}/${b}`).join(" ") ||
+          "-",
+      ],
+      ["Pairs sharing first 3 positions", overlap.sharedPrefixPairs],
+    ]
+  );
+
+  const coverage = formatTable(
+    "Paylines per cell",
+    ["Row", ...overlap.cellCoverage.map((_, reel) => `Reel ${reel + 1}`)],
+    Array.from({ length: report.rowCount }, (_, row) => [
+      row + 1,
+      ...overlap.cellCoverage.map((column) => column[row]),
+    ])
+  );
+
+  return [summary, issues, coverage].join("\n\n");
+}
@@ -11,23 +11,105 @@ export function getAllPaylineConfigs(): PaylineConfig[] {
   return [...PAYLINE_CONFIGS];
 }
 
-export function validatePaylineConfig(payline: PaylineConfig): boolean {
-  if (payline.positions.length !== 5) {
+/**
+ * A payline must cross every reel of the grid once, left to right, and stay
+ * within its rows
+ */
+export function validatePaylineConfig(
+  payline: PaylineConfig,
+  reelCount: number,
+  rowCount: number
+): boolean {
+  if (payline.positions.length !== reelCount) {
     return false;
   }
 
-  for (const position of payline.positions) {
-    if (
-      position.reel < 0 ||
-      position.reel > 4 ||
-      position.row < 0 ||
-      position.row > 2
-    ) {
-      return false;
-    }
+  return payline.positions.every(
+    (position, index) =>
+      position.reel === index &&
+      Number.isInteger(position.row) &&
+      position.row >= 0 &&
+      position.row < rowCount
+  );
+}
+
+/**
+ * Paylines for a grid: the classic 20 lines on 5x3, otherwise straight,
+ * zigzag and V shaped lines generated for the grid size
+ */
+export function getPaylinesForGrid(
+  reelCount: number,
+  rowCount: number
+): PaylineConfig[] {
+  const fitsGrid = PAYLINE_CONFIGS.every((payline) =>
+    validatePaylineConfig(payline, reelCount, rowCount)
+  );
+  const usesEveryRow = PAYLINE_CONFIGS.some((payline) =>
+    payline.positions.some((position) => position.row === rowCount - 1)
+  );
+
+  if (fitsGrid && usesEveryRow) {
+    return PAYLINE_CONFIGS;
+  }
+
+  return createGridPaylines(reelCount, rowCount);
+}
+
+export function createGridPaylines(
+  reelCount: number,
+  rowCount: number
+): PaylineConfig[] {
+  const shapes: Array<{ name: string; rows: number[] }> = [];
+  const reels = Array.from({ length: reelCount }, (_, reel) => reel);
+
+  for (let row = 0; row < rowCount; row++) {
+    shapes.push({
+      name: `Row ${row + 1} Line`,
+      rows: reels.map(() => row),
+    });
+  }
+
+  for (let row = 0; row + 1 < rowCount; row++) {
+    shapes.push({
+      name: `Zigzag Rows ${row + 1}-${row + 2}`,
+      rows: reels.map((reel) => row + (reel % 2)),
+    });
+    shapes.push({
+      name: `Zigzag Rows ${row + 2}-${row + 1}`,
+      rows: reels.map((reel) => row + 1 - (reel % 2)),
+    });
+  }
+
+  if (rowCount >= 3 && reelCount >= 3) {
+    // Depth of the V at each reel, 0 at the outer reels and 1 in the centre
+    const depths = reels.map(
+      (reel) => 1 - Math.abs((2 * reel) / (reelCount - 1) - 1)
+    );
+    shapes.push({
+      name: "V-Shape",
+      rows: depths.map((depth) => Math.round(depth * (rowCount - 1))),
+    });
+    shapes.push({
+      name: "Inverted V",
+      rows: depths.map((depth) => Math.round((1 - depth) * (rowCount - 1))),
+    });
   }
 
-  return true;
+  const seen = new Set<string>();
+  return shapes
+    .filter((shape) => {
+      const key = shape.rows.join(",");
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .map((shape, index) => ({
+      id: index + 1,
+      name: shape.name,
+      positions: shape.rows.map((row, reel) => ({ reel, row })),
+    }));
 }
 
 export function getPaylineCount(): number {
@@ -1,20 +1,141 @@
 import * as PIXI from "pixi.js";
 import { GameScene } from "./GameScene.js";
 import { SoundManager } from "../audio/SoundManager";
+import {
+  createRandomGenerator,
+  type RandomGenerator,
+} from "../rng/RandomGenerator";
+import { applyGameDefinition } from "../config/GameDefinition";
+import { GameDefinitionValidator } from "../config/GameDefinitionValidator";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { PaylineLinter } from "../config/paylines/PaylineLinter";
+import { HttpWallet, InMemoryWallet, type Wallet } from "../wallet";
+import {
+  InMemoryJournal,
+  IndexedDbJournal,
+  type RoundJournal,
+} from "../journal";
+import {
+  InMemoryRecoveryStore,
+  LocalStorageRecoveryStore,
+  type RecoveryStore,
+} from "../recovery";
 
 export class GameApplication {
   public app: PIXI.Application;
-  public gameScene: GameScene;
+  // Created once the game definition is loaded, as it reads the config
+  public gameScene!: GameScene;
   private canvas: HTMLCanvasElement;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     this.app = new PIXI.Application();
-    this.gameScene = new GameScene();
+  }
+
+  /**
+   * A `?seed=` URL parameter makes every round reproducible for QA;
+   * otherwise outcomes come from the crypto generator.
+   */
+  private createOutcomeGenerator(): RandomGenerator {
+    const seedParam = new URLSearchParams(window.location.search).get("seed");
+    const seed = seedParam === null ? NaN : Number(seedParam);
+
+    return createRandomGenerator(Number.isInteger(seed) ? seed : undefined);
+  }
+
+  /**
+   * A `?wallet=` URL parameter plays against the wallet service at that URL,
+   * e.g. the local mock from `pnpm wallet-server`; otherwise the balance is
+   * kept in memory.
+   */
+  private createWallet(): Wallet {
+    const url = new URLSearchParams(window.location.search).get("wallet");
+
+    return url === null ? new InMemoryWallet() : new HttpWallet(url);
+  }
+
+  /**
+   * Rounds are saved in localStorage when playing against a wallet service,
+   * so a round cut short by a reload is finished afterwards. The in-memory
+   * wallet starts over on every load, leaving no round to finish.
+   */
+  private createRecoveryStore(): RecoveryStore {
+    const url = new URLSearchParams(window.location.search).get("wallet");
+
+    return url === null
+      ? new InMemoryRecoveryStore()
+      : new LocalStorageRecoveryStore(`slot-round:${url}`);
+  }
+
+  /**
+   * Spins and payouts are journaled to IndexedDB where the browser has it
+   */
+  private createJournal(): RoundJournal {
+    return typeof indexedDB === "undefined"
+      ? new InMemoryJournal()
+      : new IndexedDbJournal();
+  }
+
+  /**
+   * A `?game=` URL parameter replaces the built-in game with the definition
+   * at `/games/<game>.json`.
+   */
+  private async loadGameDefinition(): Promise<void> {
+    const game = new URLSearchParams(window.location.search).get("game");
+    if (game === null) {
+      return;
+    }
+
+    if (!/^[\w-]+$/.test(game)) {
+      throw new Error(`Invalid game name "${game}"`);
+    }
+
+    const response = await fetch(`/games/${game}.json`);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load game definition "${game}": ${response.status}`
+      );
+    }
+
+    applyGameDefinition(GameDefinitionValidator.parse(await response.json()));
+  }
+
+  /**
+   * Report payline mistakes of the loaded game in development builds
+   */
+  private lintPaylines(): void {
+    const report = PaylineLinter.lint(
+      GAME_CONFIG.paylines,
+      GAME_CONFIG.reels.count,
+      GAME_CONFIG.reels.rows
+    );
+
+    report.issues.forEach((issue) => {
+      const message = `Payline ${issue.paylineId ?? "set"}: ${issue.message}`;
+      if (issue.severity === "error") {
+        console.error(message);
+      } else {
+        console.warn(message);
+      }
+    });
   }
 
   public async initialize(): Promise<void> {
     try {
+      await this.loadGameDefinition();
+      if (import.meta.env.DEV) {
+        this.lintPaylines();
+      }
+      const recovery = this.createRecoveryStore();
+      // Read before the new session starts saving over it
+      const unfinishedRound = recovery.load();
+      this.gameScene = new GameScene(
+        this.createOutcomeGenerator(),
+        this.createWallet(),
+        this.createJournal(),
+        recovery
+      );
+
       await this.app.init({
         canvas: this.canvas,
         width: window.innerWidth,
@@ -37,6 +158,10 @@ export class GameApplication {
       await this.gameScene.setup();
 
       this.gameScene.resize(window.innerWidth, window.innerHeight);
+
+      if (unfinishedRound) {
+        this.gameScene.resumeRound(unfinishedRound);
+      }
     } catch (error) {
       throw error;
     }
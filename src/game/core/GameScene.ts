@@ -8,6 +8,23 @@ import { setGenerationMode } from "../symbols/SymbolConfig";
 import { AudioControls } from "../ui/AudioControls";
 import { SoundManager } from "../audio/SoundManager";
 import type { SpinResult } from "../../types";
+import type { GameContext } from "../state/GameStateMachine";
+import {
+  defaultRandomGenerator,
+  type RandomGenerator,
+} from "../rng/RandomGenerator";
+import { SlotEngine } from "../engine/SlotEngine";
+import { FreeSpins } from "../logic/FreeSpins";
+import { MaxWin } from "../logic/MaxWin";
+import { MoneyMath } from "../logic/MoneyMath";
+import { FeatureBanner } from "../ui/FeatureBanner";
+import { InMemoryWallet, type Wallet } from "../wallet";
+import { InMemoryJournal, type RoundJournal } from "../journal";
+import {
+  InMemoryRecoveryStore,
+  type RecoveryStore,
+  type SavedRound,
+} from "../recovery";
 
 export class GameScene extends PIXI.Container {
   private background: PIXI.Sprite | null = null;
@@ -19,15 +36,24 @@ export class GameScene extends PIXI.Container {
   private gameUI: GameUI | null = null;
   private audioControls: AudioControls | null = null;
   private keyboardHandler: ((event: KeyboardEvent) => void) | null = null;
+  private engine: SlotEngine;
+  private featureBanner: FeatureBanner | null = null;
+  private lastStatePath: string = "";
 
   private readonly GAME_AREA_WIDTH = 1190;
   private readonly GAME_AREA_HEIGHT = 600;
   private readonly UI_HEIGHT = 120;
 
-  constructor() {
+  constructor(
+    rng: RandomGenerator = defaultRandomGenerator,
+    wallet: Wallet = new InMemoryWallet(),
+    journal: RoundJournal = new InMemoryJournal(),
+    recovery: RecoveryStore = new InMemoryRecoveryStore()
+  ) {
     super();
 
-    this.stateManager = new GameStateManager();
+    this.engine = new SlotEngine(rng);
+    this.stateManager = new GameStateManager(wallet, journal, recovery);
 
     this.gameArea = new PIXI.Container();
     this.uiArea = new PIXI.Container();
@@ -38,6 +64,8 @@ export class GameScene extends PIXI.Container {
   }
 
   public async setup(): Promise<void> {
+    // The UI counts profit and loss from the wallet's opening balance
+    await this.stateManager.syncBalance();
     await this.createBackground();
     this.setupGameArea();
     this.setupUIArea();
@@ -51,6 +79,19 @@ export class GameScene extends PIXI.Container {
     this.setupKeyboardControls();
   }
 
+  /**
+   * Pick up a round interrupted by a reload: the reels show its last grid,
+   * then the round continues from its saved state, replaying a pending spin
+   * or win celebration
+   */
+  public resumeRound(round: SavedRound): void {
+    if (this.slotMachine && round.lastSpin && !round.spinPending) {
+      this.slotMachine.showResult(round.lastSpin);
+    }
+
+    this.stateManager.resumeRound(round);
+  }
+
   private async createBackground(): Promise<void> {
     try {
       const backgroundTexture = await PIXI.Assets.load(
@@ -104,13 +145,32 @@ export class GameScene extends PIXI.Container {
     try {
       await this.symbolFactory.initialize();
 
-      this.slotMachine = new SlotMachine(this.symbolFactory, this.stateManager);
+      this.slotMachine = new SlotMachine(
+        this.symbolFactory,
+        this.stateManager,
+        this.engine
+      );
 
       this.slotMachine.x = this.GAME_AREA_WIDTH / 2;
       this.slotMachine.y = this.GAME_AREA_HEIGHT / 2;
 
+      // Grids larger than the game area shrink to fit it
+      this.slotMachine.scale.set(
+        Math.min(
+          1,
+          this.GAME_AREA_WIDTH / this.slotMachine.getTotalWidth(),
+          this.GAME_AREA_HEIGHT / this.slotMachine.getTotalHeight()
+        )
+      );
+
       this.gameArea.addChild(this.slotMachine);
 
+      this.featureBanner = new FeatureBanner(
+        this.GAME_AREA_WIDTH,
+        this.GAME_AREA_HEIGHT
+      );
+      this.gameArea.addChild(this.featureBanner);
+
       this.setupPaylineAnimationCallbacks();
     } catch (error) {
       console.error("Failed to initialize slot machine:", error);
@@ -170,44 +230,91 @@ export class GameScene extends PIXI.Container {
 
   private setupStateToSlotMachineConnection(): void {
     this.stateManager.subscribe("gameScene", (context) => {
-      const currentState = this.stateManager.currentState;
+      const statePath = this.stateManager.statePath;
+      const stateChanged = statePath !== this.lastStatePath;
+      this.lastStatePath = statePath;
 
       if (
-        currentState === "spinning" &&
+        (statePath === "spinning" || statePath === "freeSpins.spinning") &&
         context.isSpinning &&
         this.slotMachine &&
         !this.slotMachine.isSpinning
       ) {
-        this.performSlotMachineSpin();
+        this.performSlotMachineSpin(statePath === "freeSpins.spinning");
       }
 
       if (
-        currentState === "celebrating" &&
+        (statePath === "celebrating" ||
+          statePath === "freeSpins.celebrating") &&
         this.slotMachine &&
         context.reelResults
       ) {
         this.performWinCelebration(context.reelResults);
       }
 
-      if (currentState === "idle" && this.slotMachine) {
+      if (stateChanged) {
+        this.updateFeatureBanner(statePath, context);
+      }
+
+      if (
+        (statePath === "idle" || statePath === "freeSpins.next") &&
+        this.slotMachine
+      ) {
         this.slotMachine.endWinCelebration();
       }
     });
   }
 
-  private async performSlotMachineSpin(): Promise<void> {
+  private updateFeatureBanner(statePath: string, context: GameContext): void {
+    if (!this.featureBanner) return;
+
+    if (statePath === "freeSpins.intro") {
+      const multiplier = FreeSpins.winMultiplier;
+      this.featureBanner.show(
+        "FREE SPINS",
+        multiplier > 1
+          ? `${context.freeSpinsAwarded} free spins - all wins x${multiplier}`
+          : `${context.freeSpinsAwarded} free spins`,
+        () => this.stateManager.completeFreeSpinsIntro()
+      );
+    } else if (
+      (statePath === "celebrating" || statePath === "freeSpins.celebrating") &&
+      context.reelResults?.maxWinReached
+    ) {
+      this.featureBanner.show(
+        "MAX WIN",
+        `Round win capped at ${MaxWin.multiplier}x bet - ${MoneyMath.format(context.roundWin)}`,
+        () => this.stateManager.completeWinCelebration()
+      );
+    } else if (statePath === "freeSpins.outro") {
+      this.featureBanner.show(
+        "FEATURE COMPLETE",
+        `${context.freeSpinsAwarded} free spins won ${MoneyMath.format(context.bonusWin)}`,
+        () => this.stateManager.completeFreeSpinsOutro()
+      );
+    } else {
+      this.featureBanner.hide();
+    }
+  }
+
+  private async performSlotMachineSpin(freeSpin: boolean): Promise<void> {
     if (!this.slotMachine) return;
 
     try {
-      const spinResult = await this.slotMachine.spin();
+      const spinResult = await this.slotMachine.spin(
+        freeSpin,
+        this.stateManager.pendingSpin ?? undefined
+      );
 
       this.stateManager.completeSpin(spinResult);
     } catch (error) {
       console.error("Error during slot machine spin:", error);
-      const errorResult: SpinResult = {
+      // An outcome already drawn stands; only a spin that failed before
+      // drawing one completes empty
+      const errorResult: SpinResult = this.stateManager.pendingSpin ?? {
         reelResults: [],
         wins: [],
-        totalWin: 0,
+        totalWin: MoneyMath.zero(),
       };
       this.stateManager.completeSpin(errorResult);
     }
@@ -289,6 +396,10 @@ export class GameScene extends PIXI.Container {
     return this.slotMachine;
   }
 
+  public getEngine(): SlotEngine {
+    return this.engine;
+  }
+
   public getStateManager(): GameStateManager {
     return this.stateManager;
   }
@@ -351,6 +462,10 @@ export class GameScene extends PIXI.Container {
       this.audioControls.destroy();
     }
 
+    if (this.featureBanner) {
+      this.featureBanner.destroy();
+    }
+
     super.destroy();
   }
 
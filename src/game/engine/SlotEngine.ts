@@ -0,0 +1,137 @@
+import type { Money, SpinResult } from "../../types";
+import { SpinResolver } from "../logic/SpinResolver";
+import { FreeSpins } from "../logic/FreeSpins";
+import { MaxWin } from "../logic/MaxWin";
+import { Betting } from "../logic/Betting";
+import { MoneyMath } from "../logic/MoneyMath";
+import {
+  defaultRandomGenerator,
+  type RandomGenerator,
+} from "../rng/RandomGenerator";
+
+export interface RoundResult {
+  /** Total bet of the round */
+  bet: Money;
+  /** Paylines played; the bet is spread evenly across them */
+  activeLines: number;
+  /** Free spins are played at the bet that triggered them without staking it */
+  freeSpin: boolean;
+  spinResult: SpinResult;
+  totalWin: Money;
+  /** Net balance change of the round: winnings minus any stake */
+  balanceDelta: Money;
+}
+
+/**
+ * Headless slot engine: bet in, outcome, wins and balance change out.
+ * Pure TypeScript with no DOM or renderer dependencies, so it runs the same
+ * in the browser, in Node simulators and on a server.
+ */
+export class SlotEngine {
+  private _rng: RandomGenerator;
+
+  constructor(rng: RandomGenerator = defaultRandomGenerator) {
+    this._rng = rng;
+  }
+
+  get rng(): RandomGenerator {
+    return this._rng;
+  }
+
+  spin(bet: Money, activeLines: number = Betting.maxLines): RoundResult {
+    this.validateBet(bet, activeLines);
+    return this.createRoundResult(
+      bet,
+      activeLines,
+      MaxWin.apply(
+        FreeSpins.toBaseSpin(
+          SpinResolver.resolveSpin(bet, this._rng, activeLines)
+        ),
+        bet
+      )
+    );
+  }
+
+  /**
+   * Play one spin of the free spins feature at the triggering bet and lines.
+   * `roundWin` is what the round has won so far, triggering spin included,
+   * and counts towards the max win cap.
+   */
+  spinFree(
+    bet: Money,
+    activeLines: number = Betting.maxLines,
+    roundWin: Money = MoneyMath.zero(bet.currency)
+  ): RoundResult {
+    this.validateBet(bet, activeLines);
+    return this.createRoundResult(
+      bet,
+      activeLines,
+      MaxWin.apply(
+        FreeSpins.toFreeSpin(
+          SpinResolver.resolveSpin(bet, this._rng, activeLines)
+        ),
+        bet,
+        roundWin
+      )
+    );
+  }
+
+  /**
+   * Re-run a round from its recorded seed
+   */
+  replay(
+    seed: number,
+    bet: Money,
+    freeSpin: boolean = false,
+    activeLines: number = Betting.maxLines,
+    roundWin: Money = MoneyMath.zero(bet.currency)
+  ): RoundResult {
+    this.validateBet(bet, activeLines);
+    const spinResult = SpinResolver.replaySpin(seed, bet, activeLines);
+    return this.createRoundResult(
+      bet,
+      activeLines,
+      MaxWin.apply(
+        freeSpin
+          ? FreeSpins.toFreeSpin(spinResult)
+          : FreeSpins.toBaseSpin(spinResult),
+        bet,
+        roundWin
+      )
+    );
+  }
+
+  private createRoundResult(
+    bet: Money,
+    activeLines: number,
+    spinResult: SpinResult
+  ): RoundResult {
+    const freeSpin = spinResult.freeSpin ?? false;
+    return {
+      bet,
+      activeLines,
+      freeSpin,
+      spinResult,
+      totalWin: spinResult.totalWin,
+      balanceDelta: freeSpin
+        ? spinResult.totalWin
+        : MoneyMath.subtract(spinResult.totalWin, bet),
+    };
+  }
+
+  private validateBet(bet: Money, activeLines: number): void {
+    if (!Number.isSafeInteger(bet.minor) || bet.minor <= 0) {
+      throw new Error(`Invalid bet amount: ${bet.minor} ${bet.currency}`);
+    }
+    if (bet.currency !== MoneyMath.currency.code) {
+      throw new Error(
+        `Bet currency ${bet.currency} differs from the game currency ${MoneyMath.currency.code}`
+      );
+    }
+    if (!Betting.isValidLineCount(activeLines)) {
+      throw new Error(
+        `Invalid line count: ${activeLines}, expected 1 to ${Betting.maxLines}`
+      );
+    }
+  }
+}
@@ -0,0 +1,14 @@
+export { SlotEngine, type RoundResult } from "./SlotEngine";
+export { SpinResolver } from "../logic/SpinResolver";
+export { WinEvaluatorV5 } from "../logic/WinEvaluatorV5";
+export { FreeSpins } from "../logic/FreeSpins";
+export { MaxWin } from "../logic/MaxWin";
+export { Betting } from "../logic/Betting";
+export { MoneyMath } from "../logic/MoneyMath";
+export { Cascades, type CascadeRefill } from "../logic/Cascades";
+export {
+  type RandomGenerator,
+  SeededRandom,
+  CryptoRandom,
+  createRandomGenerator,
+} from "../rng/RandomGenerator";
@@ -0,0 +1,18 @@
+import type { JournalEntry, RoundJournal } from "./RoundJournal";
+
+/**
+ * Journal kept in memory, for headless play where nothing is persisted
+ */
+export class InMemoryJournal implements RoundJournal {
+  private entries: JournalEntry[] = [];
+
+  async append(entry: JournalEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+  }
+
+  async getEntries(roundId?: string): Promise<JournalEntry[]> {
+    return this.entries
+      .filter((entry) => roundId === undefined || entry.roundId === roundId)
+      .map((entry) => structuredClone(entry));
+  }
+}
@@ -0,0 +1,68 @@
+import type { JournalEntry, RoundJournal } from "./RoundJournal";
+
+const STORE_NAME = "entries";
+const ROUND_INDEX = "roundId";
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Journal persisted in the browser's IndexedDB. Entries are keyed by an
+ * auto-incremented sequence, so they read back in the order they were
+ * appended.
+ */
+export class IndexedDbJournal implements RoundJournal {
+  private readonly databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = "slot-journal") {
+    this.databaseName = databaseName;
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    const transaction = (await this.open()).transaction(
+      STORE_NAME,
+      "readwrite"
+    );
+    transaction.objectStore(STORE_NAME).add(entry);
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getEntries(roundId?: string): Promise<JournalEntry[]> {
+    const store = (await this.open())
+      .transaction(STORE_NAME, "readonly")
+      .objectStore(STORE_NAME);
+
+    return toPromise<JournalEntry[]>(
+      roundId === undefined
+        ? store.getAll()
+        : store.index(ROUND_INDEX).getAll(roundId)
+    );
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result
+          .createObjectStore(STORE_NAME, { autoIncrement: true })
+          .createIndex(ROUND_INDEX, "roundId");
+      };
+      this.database = toPromise(request);
+      // Let a later call try again, e.g. after storage was blocked
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
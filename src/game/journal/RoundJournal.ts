@@ -0,0 +1,49 @@
+import type { Money, SymbolType, WinResult } from "../../types";
+
+/**
+ * A spin as it was played. The paid spin of a round is spin 0 and its free
+ * spins follow from 1, so a round id and spin number identify every spin.
+ */
+export interface SpinJournalEntry {
+  kind: "spin";
+  roundId: string;
+  spin: number;
+  /** ISO 8601 time the result was committed */
+  timestamp: string;
+  /** Total bet of the round; free spins are played at it without a stake */
+  bet: Money;
+  activeLines: number;
+  freeSpin: boolean;
+  /** Seed that replays the grid, see SlotEngine.replay */
+  seed: number | null;
+  grid: SymbolType[][];
+  wins: WinResult[];
+  totalWin: Money;
+  /** Balance around the stake; equal for free spins */
+  balanceBefore: Money;
+  balanceAfter: Money;
+}
+
+/**
+ * The round win paid out by the wallet
+ */
+export interface CreditJournalEntry {
+  kind: "credit";
+  roundId: string;
+  timestamp: string;
+  amount: Money;
+  balanceBefore: Money;
+  balanceAfter: Money;
+}
+
+export type JournalEntry = SpinJournalEntry | CreditJournalEntry;
+
+/**
+ * Append-only record of every spin and payout, the audit trail for
+ * disputed rounds. Entries are never updated or removed.
+ */
+export interface RoundJournal {
+  append(entry: JournalEntry): Promise<void>;
+  /** Entries in the order they were appended, optionally of one round */
+  getEntries(roundId?: string): Promise<JournalEntry[]>;
+}
@@ -0,0 +1,8 @@
+export {
+  type RoundJournal,
+  type JournalEntry,
+  type SpinJournalEntry,
+  type CreditJournalEntry,
+} from "./RoundJournal";
+export { InMemoryJournal } from "./InMemoryJournal";
+export { IndexedDbJournal } from "./IndexedDbJournal";
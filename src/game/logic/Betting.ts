@@ -0,0 +1,168 @@
+import type { Money, PaylineConfig } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { MoneyMath } from "./MoneyMath";
+
+/**
+ * Bet model: the total bet is coin value × coins per line × active lines.
+ *
+ * Line pays in the paytable are multiples of the total bet with every
+ * payline played, so a line pays its multiplier times the line bet times the
+ * payline count, and the return is the same at any number of lines.
+ * Scatter, ways and cluster pays stay multiples of the total bet.
+ */
+export class Betting {
+  static get coinValue(): Money {
+    return MoneyMath.fromMajor(GAME_CONFIG.betting.coinValue ?? 1);
+  }
+
+  /** Paylines the player can choose from, in payline order */
+  static get maxLines(): number {
+    return GAME_CONFIG.paylines.length;
+  }
+
+  static get defaultLines(): number {
+    return this.clampLines(GAME_CONFIG.betting.linesPerSpin);
+  }
+
+  /**
+   * Bet levels as coins per line, ascending. Without a configured ladder
+   * every whole number of coins up to the max bet is a level.
+   */
+  static get ladder(): number[] {
+    const { betLevels, maxBet } = GAME_CONFIG.betting;
+    const coinValue = this.coinValue.minor;
+    if (betLevels) {
+      return betLevels.map((level) =>
+        Math.round(MoneyMath.fromMajor(level).minor / coinValue)
+      );
+    }
+    return Array.from(
+      {
+        length: Math.max(
+          1,
+          Math.floor(MoneyMath.fromMajor(maxBet).minor / coinValue)
+        ),
+      },
+      (_, index) => index + 1
+    );
+  }
+
+  /**
+   * Ladder levels whose total bet at a line count is within the min and
+   * max bet
+   */
+  static getLevels(activeLines: number): number[] {
+    const minBet = MoneyMath.fromMajor(GAME_CONFIG.betting.minBet);
+    const maxBet = MoneyMath.fromMajor(GAME_CONFIG.betting.maxBet);
+    return this.ladder.filter((coinsPerLine) => {
+      const totalBet = this.getTotalBet(coinsPerLine, activeLines);
+      return (
+        MoneyMath.compare(totalBet, minBet) >= 0 &&
+        MoneyMath.compare(totalBet, maxBet) <= 0
+      );
+    });
+  }
+
+  static isValidBet(coinsPerLine: number, activeLines: number): boolean {
+    return (
+      this.isValidLineCount(activeLines) &&
+      this.getLevels(activeLines).includes(coinsPerLine)
+    );
+  }
+
+  /**
+   * Level whose total bet is nearest to `totalBet`, preferring the lower
+   * level on a tie; null when no level fits the line count
+   */
+  static snapToLevel(totalBet: Money, activeLines: number): number | null {
+    let nearest: number | null = null;
+    let nearestDistance = Infinity;
+
+    for (const coinsPerLine of this.getLevels(activeLines)) {
+      const distance = Math.abs(
+        MoneyMath.compare(this.getTotalBet(coinsPerLine, activeLines), totalBet)
+      );
+      if (distance < nearestDistance) {
+        nearest = coinsPerLine;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Level nearest to a coins per line at a line count, e.g. after the line
+   * count changed; null when no level fits the line count
+   */
+  static snapCoinsPerLine(
+    coinsPerLine: number,
+    activeLines: number
+  ): number | null {
+    return this.snapToLevel(
+      this.getTotalBet(coinsPerLine, activeLines),
+      activeLines
+    );
+  }
+
+  /**
+   * Neighbouring level up or down the ladder, null at the ends
+   */
+  static getNextLevel(
+    coinsPerLine: number,
+    activeLines: number,
+    direction: 1 | -1
+  ): number | null {
+    const levels = this.getLevels(activeLines);
+    const next =
+      direction === 1
+        ? levels.find((level) => level > coinsPerLine)
+        : [...levels].reverse().find((level) => level < coinsPerLine);
+    return next ?? null;
+  }
+
+  /**
+   * Level nearest to the configured default bet at the default line count
+   */
+  static get defaultCoinsPerLine(): number {
+    return (
+      this.snapToLevel(
+        MoneyMath.fromMajor(GAME_CONFIG.betting.defaultBet),
+        this.defaultLines
+      ) ?? this.ladder[0]
+    );
+  }
+
+  static get defaultBet(): Money {
+    return this.getTotalBet(this.defaultCoinsPerLine, this.defaultLines);
+  }
+
+  static clampLines(lines: number): number {
+    return Math.min(this.maxLines, Math.max(1, Math.round(lines)));
+  }
+
+  static isValidLineCount(lines: number): boolean {
+    return Number.isInteger(lines) && lines >= 1 && lines <= this.maxLines;
+  }
+
+  static getTotalBet(coinsPerLine: number, activeLines: number): Money {
+    return MoneyMath.multiply(this.coinValue, coinsPerLine * activeLines);
+  }
+
+  /**
+   * The first `activeLines` paylines; only these are evaluated and drawn
+   */
+  static getActivePaylines(
+    activeLines: number = this.maxLines
+  ): PaylineConfig[] {
+    return GAME_CONFIG.paylines.slice(0, this.clampLines(activeLines));
+  }
+
+  /**
+   * Amount a line pay multiplier applies to: the line bet times the payline
+   * count, which is the total bet when every line is played
+   */
+  static getLinePayBase(totalBet: Money, activeLines: number): Money {
+    return MoneyMath.multiply(totalBet, this.maxLines / activeLines);
+  }
+}
@@ -0,0 +1,130 @@
+import { SymbolType } from "../../types";
+import type {
+  CascadeConfig,
+  CascadeStep,
+  Money,
+  SpinResult,
+} from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { WinEvaluatorV5 } from "./WinEvaluatorV5";
+import { Betting } from "./Betting";
+import { MoneyMath } from "./MoneyMath";
+
+/**
+ * New symbols for the top of a reel after `count` cells were removed,
+ * top row first
+ */
+export type CascadeRefill = (reel: number, count: number) => SymbolType[];
+
+// Every cascade removes at least one symbol, this only bounds degenerate configs
+const MAX_CASCADES = 100;
+
+/**
+ * Cascading reels rules: winning symbols are removed, the symbols above drop
+ * down and the reels are refilled from the top until a grid has no win
+ */
+export class Cascades {
+  static get config(): CascadeConfig | null {
+    return GAME_CONFIG.cascade ?? null;
+  }
+
+  static get enabled(): boolean {
+    return this.config?.enabled ?? false;
+  }
+
+  /**
+   * Win multiplier of a cascade step, 0 being the landed grid
+   */
+  static getMultiplier(step: number): number {
+    const multipliers = this.config?.multipliers;
+    if (!multipliers || multipliers.length === 0) {
+      return 1;
+    }
+    return multipliers[Math.min(step, multipliers.length - 1)];
+  }
+
+  /**
+   * Play the whole tumble sequence of a landed grid
+   */
+  static resolve(
+    reelResults: SymbolType[][],
+    currentBet: Money,
+    refill: CascadeRefill,
+    activeLines: number = Betting.maxLines
+  ): SpinResult {
+    const cascades: CascadeStep[] = [];
+    let grid = reelResults;
+
+    for (let step = 0; step < MAX_CASCADES; step++) {
+      const multiplier = this.getMultiplier(step);
+      const wins = WinEvaluatorV5.evaluateWins(
+        grid,
+        currentBet,
+        activeLines
+      ).map((win) => ({
+        ...win,
+        multiplier: win.multiplier * multiplier,
+        winAmount: MoneyMath.multiply(win.winAmount, multiplier),
+        cascade: step,
+      }));
+
+      cascades.push({
+        reelResults: grid,
+        wins,
+        multiplier,
+        totalWin: WinEvaluatorV5.calculateTotalWin(wins),
+      });
+
+      if (wins.length === 0) {
+        break;
+      }
+
+      grid = this.tumble(grid, this.getRemovedRows(cascades[step]), refill);
+    }
+
+    const wins = cascades.flatMap((step) => step.wins);
+
+    return {
+      reelResults,
+      wins,
+      totalWin: WinEvaluatorV5.calculateTotalWin(wins),
+      cascades,
+    };
+  }
+
+  /**
+   * Rows each reel loses to a step's wins, top row first
+   */
+  static getRemovedRows(step: CascadeStep): number[][] {
+    const removed = step.reelResults.map((column) => column.map(() => false));
+
+    step.wins.forEach((win) => {
+      win.positions.forEach((position) => {
+        removed[position.reel][position.row] = true;
+      });
+    });
+
+    return removed.map((column) =>
+      column.flatMap((isRemoved, row) => (isRemoved ? [row] : []))
+    );
+  }
+
+  /**
+   * Drop the remaining symbols of each reel and refill it from the top
+   */
+  static tumble(
+    reelResults: SymbolType[][],
+    removedRows: number[][],
+    refill: CascadeRefill
+  ): SymbolType[][] {
+    return reelResults.map((column, reel) => {
+      const removed = removedRows[reel];
+      if (removed.length === 0) {
+        return [...column];
+      }
+
+      const remaining = column.filter((_, row) => !removed.includes(row));
+      return [...refill(reel, removed.length), ...remaining];
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { SymbolType } from "../../types";
+import type { FreeSpinsConfig, SpinResult, WinResult } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { MoneyMath } from "./MoneyMath";
+
+/**
+ * Free spins feature rules: how many spins a grid awards and how free spin
+ * wins are paid
+ */
+export class FreeSpins {
+  static get config(): FreeSpinsConfig | null {
+    return GAME_CONFIG.freeSpins ?? null;
+  }
+
+  static get winMultiplier(): number {
+    return this.config?.winMultiplier ?? 1;
+  }
+
+  /**
+   * Free spins awarded by the trigger symbols anywhere on the grid
+   */
+  static getAwardedSpins(
+    reelResults: SymbolType[][],
+    retrigger: boolean = false
+  ): number {
+    const config = this.config;
+    if (!config) {
+      return 0;
+    }
+
+    const count = reelResults
+      .flat()
+      .filter((symbol) => symbol === config.triggerSymbol).length;
+
+    return this.getAward(
+      retrigger ? (config.retriggerAwards ?? config.awards) : config.awards,
+      count
+    );
+  }
+
+  /**
+   * Award for a trigger count, from the highest table entry the count reaches
+   */
+  static getAward(awards: { [count: number]: number }, count: number): number {
+    const reachedCounts = Object.keys(awards)
+      .map(Number)
+      .filter((awardCount) => awardCount <= count);
+
+    if (reachedCounts.length === 0) {
+      return 0;
+    }
+    return awards[Math.max(...reachedCounts)] || 0;
+  }
+
+  /**
+   * Mark a spin as free, apply the feature multiplier and any retrigger
+   */
+  static toFreeSpin(spinResult: SpinResult): SpinResult {
+    const multiplier = this.winMultiplier;
+    const applyMultiplier = (wins: WinResult[]): WinResult[] =>
+      wins.map((win) => ({
+        ...win,
+        multiplier: win.multiplier * multiplier,
+        winAmount: MoneyMath.multiply(win.winAmount, multiplier),
+      }));
+    const wins = applyMultiplier(spinResult.wins);
+
+    // Totals are summed from the multiplied wins so they match to the unit
+    return {
+      ...spinResult,
+      wins,
+      totalWin: MoneyMath.sum(wins.map((win) => win.winAmount)),
+      ...(spinResult.cascades && {
+        cascades: spinResult.cascades.map((step) => {
+          const stepWins = applyMultiplier(step.wins);
+          return {
+            ...step,
+            wins: stepWins,
+            totalWin: MoneyMath.sum(stepWins.map((win) => win.winAmount)),
+          };
+        }),
+      }),
+      freeSpin: true,
+      freeSpinsAwarded: this.getAwardedSpins(spinResult.reelResults, true),
+    };
+  }
+
+  /**
+   * Record the free spins a base game spin triggers
+   */
+  static toBaseSpin(spinResult: SpinResult): SpinResult {
+    return {
+      ...spinResult,
+      freeSpinsAwarded: this.getAwardedSpins(spinResult.reelResults),
+    };
+  }
+}
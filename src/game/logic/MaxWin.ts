@@ -0,0 +1,52 @@
+import type { Money, SpinResult } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { MoneyMath } from "./MoneyMath";
+
+/**
+ * Max win rules: a round, free spins included, never pays more than a
+ * multiple of the total bet
+ */
+export class MaxWin {
+  /** Cap as a multiple of the total bet, null when uncapped */
+  static get multiplier(): number | null {
+    return GAME_CONFIG.maxWin ?? null;
+  }
+
+  /** Most a round can pay at a bet, null when uncapped */
+  static getCap(bet: Money): Money | null {
+    const multiplier = this.multiplier;
+    return multiplier === null ? null : MoneyMath.multiply(bet, multiplier);
+  }
+
+  /**
+   * Truncate a spin's payout to what the round's earlier wins left of the
+   * cap. Line and cascade wins keep their evaluated amounts; only `totalWin`
+   * is paid, so only it is truncated. Reaching the cap ends the round, so
+   * the spin awards no free spins.
+   */
+  static apply(
+    spinResult: SpinResult,
+    bet: Money,
+    roundWin: Money = MoneyMath.zero(bet.currency)
+  ): SpinResult {
+    const cap = this.getCap(bet);
+    if (cap === null || !MoneyMath.isPositive(spinResult.totalWin)) {
+      return spinResult;
+    }
+
+    const remaining = MoneyMath.max(
+      MoneyMath.zero(bet.currency),
+      MoneyMath.subtract(cap, roundWin)
+    );
+    if (MoneyMath.compare(spinResult.totalWin, remaining) < 0) {
+      return spinResult;
+    }
+
+    return {
+      ...spinResult,
+      totalWin: remaining,
+      freeSpinsAwarded: 0,
+      maxWinReached: true,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import type { CurrencyConfig, Money } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+
+const DEFAULT_CURRENCY: CurrencyConfig = { code: "USD", decimals: 2 };
+
+// Products are rounded half away from zero; the relative tolerance keeps
+// float error such as 2.3 * 105 = 241.49999999999997 from rounding down
+const ROUNDING_TOLERANCE = 1e-12;
+
+interface CurrencyFormatter {
+  format: (majorAmount: number) => string;
+  decimals: number;
+}
+
+const formatters = new Map<string, CurrencyFormatter>();
+
+function createFormatter(
+  currency: string,
+  locale: string | undefined,
+  decimals: number | undefined
+): CurrencyFormatter {
+  const digits =
+    decimals === undefined
+      ? {}
+      : { minimumFractionDigits: decimals, maximumFractionDigits: decimals };
+
+  try {
+    const formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      ...digits,
+    });
+    return {
+      format: (majorAmount) => formatter.format(majorAmount),
+      decimals: formatter.resolvedOptions().maximumFractionDigits ?? 0,
+    };
+  } catch {
+    // Intl only formats three letter codes, other tickers follow the number
+    const formatter = new Intl.NumberFormat(locale, digits);
+    return {
+      format: (majorAmount) => `${formatter.format(majorAmount)} ${currency}`,
+      decimals: decimals ?? 0,
+    };
+  }
+}
+
+/**
+ * Money arithmetic in integer minor units. Amounts are only rounded when
+ * multiplied by a non-integer factor, once per product.
+ */
+export class MoneyMath {
+  static get currency(): CurrencyConfig {
+    return GAME_CONFIG.currency ?? DEFAULT_CURRENCY;
+  }
+
+  static zero(currency: string = this.currency.code): Money {
+    return { minor: 0, currency };
+  }
+
+  static fromMinor(
+    minor: number,
+    currency: string = this.currency.code
+  ): Money {
+    if (!Number.isSafeInteger(minor)) {
+      throw new Error(`Invalid minor unit amount: ${minor}`);
+    }
+    return { minor, currency };
+  }
+
+  /**
+   * Amount in major units, e.g. dollars, rounded to the nearest minor unit
+   */
+  static fromMajor(
+    amount: number,
+    currency: string = this.currency.code
+  ): Money {
+    return this.fromMinor(
+      this.round(amount * 10 ** this.getDecimals(currency)),
+      currency
+    );
+  }
+
+  static toMajor(money: Money): number {
+    return money.minor / 10 ** this.getDecimals(money.currency);
+  }
+
+  static add(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return this.fromMinor(a.minor + b.minor, a.currency);
+  }
+
+  static subtract(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return this.fromMinor(a.minor - b.minor, a.currency);
+  }
+
+  static multiply(money: Money, factor: number): Money {
+    return this.fromMinor(this.round(money.minor * factor), money.currency);
+  }
+
+  static sum(amounts: Money[], currency: string = this.currency.code): Money {
+    return amounts.reduce(
+      (total, amount) => this.add(total, amount),
+      this.zero(currency)
+    );
+  }
+
+  static compare(a: Money, b: Money): number {
+    this.assertSameCurrency(a, b);
+    return a.minor - b.minor;
+  }
+
+  static min(a: Money, b: Money): Money {
+    return this.compare(a, b) <= 0 ? a : b;
+  }
+
+  static max(a: Money, b: Money): Money {
+    return this.compare(a, b) >= 0 ? a : b;
+  }
+
+  static isPositive(money: Money): boolean {
+    return money.minor > 0;
+  }
+
+  /**
+   * Localised amount with the currency's symbol or code, e.g. $1,234.50,
+   * ¥1,235 or BTC 0.00012000
+   */
+  static format(money: Money): string {
+    return this.getFormatter(money.currency).format(this.toMajor(money));
+  }
+
+  /**
+   * Decimals of the game currency, or the standard decimals of any other
+   * currency
+   */
+  static getDecimals(currency: string): number {
+    const config = this.currency;
+    if (currency === config.code) {
+      return config.decimals;
+    }
+    return this.getFormatter(currency).decimals;
+  }
+
+  private static getFormatter(currency: string): CurrencyFormatter {
+    const { code, decimals, locale } = this.currency;
+    const key = `${locale ?? ""}:${code}:${decimals}:${currency}`;
+    let formatter = formatters.get(key);
+
+    if (!formatter) {
+      formatter = createFormatter(
+        currency,
+        locale,
+        currency === code ? decimals : undefined
+      );
+      formatters.set(key, formatter);
+    }
+
+    return formatter;
+  }
+
+  private static round(value: number): number {
+    const rounded =
+      Math.sign(value) * Math.round(Math.abs(value) * (1 + ROUNDING_TOLERANCE));
+    // Avoid -0
+    return rounded + 0;
+  }
+
+  private static assertSameCurrency(a: Money, b: Money): void {
+    if (a.currency !== b.currency) {
+      throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { SymbolType } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import {
+  applyGameDefinition,
+  createGameDefinition,
+} from "../config/GameDefinition";
+import { getReelStripsForGrid } from "../config/ReelStrips";
+import { SlotEngine } from "../engine/SlotEngine";
+import { SeededRandom } from "../rng/RandomGenerator";
+import { Betting } from "./Betting";
+import { setGenerationMode } from "../symbols/SymbolConfig";
+import { MoneyMath } from "./MoneyMath";
+import { SpinResolver } from "./SpinResolver";
+
+const bet = MoneyMath.fromMajor(20);
+const lines = 20;
+
+// The built-in game with every cell drawn by weight instead of from strips
+const { reelStrips: _reelStrips, ...weightedGame } = GAME_CONFIG;
+
+afterEach(() => {
+  setGenerationMode(false);
+});
+
+describe("replaySpin", () => {
+  it.each([
+    ["reel strips", GAME_CONFIG],
+    ["weighted draws", weightedGame],
+  ])("replays %s from the seed", (_model, config) => {
+    const drawn = SpinResolver.resolveSpin(
+      bet,
+      new SeededRandom(42),
+      lines,
+      config
+    );
+
+    expect(drawn.seed).toBeDefined();
+    expect(SpinResolver.replaySpin(drawn.seed!, bet, lines, config)).toEqual(
+      drawn
+    );
+  });
+
+  it("ignores the ordered generation mode", () => {
+    const drawn = SpinResolver.replaySpin(42, bet, lines, weightedGame);
+
+    setGenerationMode(true);
+
+    expect(SpinResolver.replaySpin(42, bet, lines, weightedGame)).toEqual(
+      drawn
+    );
+  });
+});
+
+describe("ordered generation mode", () => {
+  it.each([
+    ["reel strips", GAME_CONFIG],
+    ["weighted draws", weightedGame],
+  ])("deals symbols in order over %s", (_model, config) => {
+    setGenerationMode(true);
+    const { reelResults, seed } = SpinResolver.resolveSpin(
+      bet,
+      new SeededRandom(1),
+      lines,
+      config
+    );
+
+    const symbols = Object.values(SymbolType);
+    expect(reelResults.flat()).toEqual(
+      Array.from(
+        { length: config.reels.count * config.reels.rows },
+        (_, index) => symbols[index % symbols.length]
+      )
+    );
+    expect(seed).toBeUndefined();
+  });
+
+  it("deals the same grid whatever the generator", () => {
+    setGenerationMode(true);
+    const first = SpinResolver.resolveSpin(bet, new SeededRandom(1), lines);
+    setGenerationMode(true);
+    const second = SpinResolver.resolveSpin(bet, new SeededRandom(2), lines);
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe("grid sizes", () => {
+  const builtInGame = createGameDefinition("fruit-slot", "Fruit Slot");
+
+  afterEach(() => {
+    applyGameDefinition(builtInGame);
+  });
+
+  it.each([
+    [3, 3],
+    [5, 4],
+    [6, 5],
+  ])("spins and replays a %ix%i grid on its reel strips", (reels, rows) => {
+    // Paylines are derived for the grid when the definition has none
+    const { paylines: _paylines, ...definition } = builtInGame;
+    applyGameDefinition({
+      ...definition,
+      grid: { reels, rows },
+      reelStrips: getReelStripsForGrid(reels).map((strip) => [
+        ...strip.symbols,
+      ]),
+    });
+
+    const engine = new SlotEngine(new SeededRandom(7));
+    for (let spin = 0; spin < 50; spin++) {
+      const { spinResult } = engine.spin(Betting.defaultBet);
+
+      expect(spinResult.reelResults).toHaveLength(reels);
+      spinResult.reelResults.forEach((column) =>
+        expect(column).toHaveLength(rows)
+      );
+      expect(
+        SpinResolver.replaySpin(spinResult.seed!, Betting.defaultBet)
+          .reelResults
+      ).toEqual(spinResult.reelResults);
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import { SymbolType } from "../../types";
+import type { GameConfig, Money, ReelStrip, SpinResult } from "../../types";
+import {
+  generateOrderedSymbol,
+  generateRandomSymbol,
+  useOrderedGeneration,
+} from "../symbols/SymbolConfig";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { WinEvaluatorV5 } from "./WinEvaluatorV5";
+import { Cascades, type CascadeRefill } from "./Cascades";
+import { Betting } from "./Betting";
+import {
+  SeededRandom,
+  defaultRandomGenerator,
+  type RandomGenerator,
+} from "../rng/RandomGenerator";
+
+/**
+ * Decides the outcome of a spin before any reel animation starts.
+ * Has no rendering dependencies so the math can run on its own.
+ *
+ * A spin is drawn from its round seed, which replays it exactly. Ordered
+ * generation mode instead deals every cell from the symbol order, whatever
+ * the generator and the reel strips; those spins carry no seed and can't be
+ * replayed. The grid and reel strips come from `config`, pays always from
+ * the game config.
+ */
+export class SpinResolver {
+  /**
+   * Weighted symbol draws; a row count per reel gives a ragged grid
+   */
+  static generateReelResults(
+    rng: RandomGenerator,
+    reelCount: number = GAME_CONFIG.reels.count,
+    rowCount: number | number[] = GAME_CONFIG.reels.rows
+  ): SymbolType[][] {
+    const reelResults: SymbolType[][] = [];
+
+    for (let reel = 0; reel < reelCount; reel++) {
+      const column: SymbolType[] = [];
+      const rows = Array.isArray(rowCount) ? rowCount[reel] : rowCount;
+      for (let row = 0; row < rows; row++) {
+        column.push(generateRandomSymbol(rng));
+      }
+      reelResults.push(column);
+    }
+
+    return reelResults;
+  }
+
+  /**
+   * Rows shown on each reel this spin. Fixed grids draw nothing from the
+   * generator, so their rounds replay exactly as before.
+   */
+  static generateRowCounts(
+    rng: RandomGenerator,
+    reels: GameConfig["reels"] = GAME_CONFIG.reels
+  ): number[] {
+    const variableRows = reels.variableRows;
+
+    return Array.from({ length: reels.count }, () =>
+      variableRows
+        ? variableRows.min +
+          rng.nextInt(variableRows.max - variableRows.min + 1)
+        : reels.rows
+    );
+  }
+
+  /**
+   * Pick one stop index per strip
+   */
+  static generateStops(rng: RandomGenerator, strips: ReelStrip[]): number[] {
+    return strips.map((strip) => rng.nextInt(strip.symbols.length));
+  }
+
+  /**
+   * Symbols visible on a reel stopped at the given strip index, top row first
+   */
+  static getStripWindow(
+    strip: ReelStrip,
+    stop: number,
+    rowCount: number = GAME_CONFIG.reels.rows
+  ): SymbolType[] {
+    const length = strip.symbols.length;
+    const window: SymbolType[] = [];
+
+    for (let row = 0; row < rowCount; row++) {
+      window.push(strip.symbols[(((stop + row) % length) + length) % length]);
+    }
+
+    return window;
+  }
+
+  /**
+   * Draw a fresh round seed from the given generator and resolve the round
+   * from it, so every round can be replayed on its own. In ordered
+   * generation mode the grid is dealt in symbol order and nothing is drawn.
+   */
+  static resolveSpin(
+    currentBet: Money,
+    rng: RandomGenerator = defaultRandomGenerator,
+    activeLines: number = Betting.maxLines,
+    config: GameConfig = GAME_CONFIG
+  ): SpinResult {
+    if (useOrderedGeneration) {
+      return this.resolveOrderedSpin(currentBet, activeLines, config);
+    }
+
+    return this.replaySpin(rng.nextUint32(), currentBet, activeLines, config);
+  }
+
+  /**
+   * Resolve the round drawn from a seed, ignoring the ordered generation
+   * mode
+   */
+  static replaySpin(
+    seed: number,
+    currentBet: Money,
+    activeLines: number = Betting.maxLines,
+    config: GameConfig = GAME_CONFIG
+  ): SpinResult {
+    this.validateGrid(config);
+    const roundRng = new SeededRandom(seed);
+    const reelCount = config.reels.count;
+    const strips = config.reelStrips?.slice(0, reelCount);
+    const rowCounts = this.generateRowCounts(roundRng, config.reels);
+
+    if (strips) {
+      if (strips.length < reelCount) {
+        throw new Error(
+          `Reel strips cover ${strips.length} reels, the grid has ${reelCount}`
+        );
+      }
+
+      const stops = this.generateStops(roundRng, strips);
+      const reelResults = stops.map((stop, reel) =>
+        this.getStripWindow(strips[reel], stop, rowCounts[reel])
+      );
+
+      // Tumbles refill each reel with the strip symbols above its window
+      const tops = [...stops];
+      const refill: CascadeRefill = (reel, count) => {
+        tops[reel] -= count;
+        return this.getStripWindow(strips[reel], tops[reel], count);
+      };
+
+      return {
+        ...this.evaluateSpin(reelResults, currentBet, activeLines, refill),
+        seed,
+        stops,
+      };
+    }
+
+    const reelResults = this.generateReelResults(
+      roundRng,
+      reelCount,
+      rowCounts
+    );
+    const refill: CascadeRefill = (_reel, count) =>
+      Array.from({ length: count }, () => generateRandomSymbol(roundRng));
+
+    return {
+      ...this.evaluateSpin(reelResults, currentBet, activeLines, refill),
+      seed,
+    };
+  }
+
+  /**
+   * Deal every cell, and every tumble refill, from the symbol order
+   */
+  private static resolveOrderedSpin(
+    currentBet: Money,
+    activeLines: number,
+    config: GameConfig
+  ): SpinResult {
+    this.validateGrid(config);
+    const { count, rows } = config.reels;
+    const reelResults = Array.from({ length: count }, () =>
+      Array.from({ length: rows }, () => generateOrderedSymbol())
+    );
+    const refill: CascadeRefill = (_reel, refillCount) =>
+      Array.from({ length: refillCount }, () => generateOrderedSymbol());
+
+    return this.evaluateSpin(reelResults, currentBet, activeLines, refill);
+  }
+
+  private static validateGrid(config: GameConfig): void {
+    if (
+      config.reels.variableRows &&
+      WinEvaluatorV5.evaluationMode === "lines"
+    ) {
+      throw new Error("Variable rows need ways or cluster evaluation");
+    }
+  }
+
+  private static evaluateSpin(
+    reelResults: SymbolType[][],
+    currentBet: Money,
+    activeLines: number,
+    refill: CascadeRefill
+  ): SpinResult {
+    return Cascades.enabled
+      ? Cascades.resolve(reelResults, currentBet, refill, activeLines)
+      : WinEvaluatorV5.createSpinResult(reelResults, currentBet, activeLines);
+  }
+}
@@ -0,0 +1,217 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { SymbolType } from "../../types";
+import type { LineWinResult, WinPolicy, WinResult } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { InfoPanel } from "../ui/InfoPanel";
+import { MoneyMath } from "./MoneyMath";
+import { WinEvaluatorV5 } from "./WinEvaluatorV5";
+
+const SYMBOLS: Record<string, SymbolType> = {
+  A: SymbolType.APPLE,
+  B: SymbolType.BLUEBERRY,
+  C: SymbolType.CHERRY,
+  K: SymbolType.KIWI,
+  O: SymbolType.ORANGE,
+  P: SymbolType.PEAR,
+  S: SymbolType.SCATTER,
+  W: SymbolType.WILD,
+};
+
+/**
+ * Grid from rows of symbol letters, top row first, as reels of rows
+ */
+function grid(...rows: string[]): SymbolType[][] {
+  return [...rows[0]].map((_, reel) => rows.map((row) => SYMBOLS[row[reel]]));
+}
+
+function paidLines(wins: WinResult[]): number[] {
+  return wins.flatMap((win) => (win.kind === "line" ? [win.payline] : []));
+}
+
+// Cherries along the top row: five on line 2, the same first three on line
+// 20, and a run of three bending into the middle row on lines 6 and 16
+const OVERLAPPING_CHERRIES = grid("CCCCC", "AKCOP", "BOPKA");
+
+// Three cherries on lines 2 and 20 tie; three pears on line 3
+const TWO_SYMBOLS = grid("CCCAB", "KOAPB", "PPPKO");
+
+const bet = MoneyMath.fromMajor(20);
+const initialPolicy = WinEvaluatorV5.winPolicy;
+
+function evaluate(policy: WinPolicy, reelResults: SymbolType[][]) {
+  GAME_CONFIG.winPolicy = policy;
+  return WinEvaluatorV5.evaluateWins(reelResults, bet, 20);
+}
+
+const initialDirection = WinEvaluatorV5.paylineDirection;
+
+afterEach(() => {
+  GAME_CONFIG.winPolicy = initialPolicy;
+  GAME_CONFIG.paylineDirection = initialDirection;
+});
+
+describe("payAll", () => {
+  it("pays every winning payline", () => {
+    const wins = evaluate("payAll", OVERLAPPING_CHERRIES);
+
+    expect(paidLines(wins)).toEqual([2, 6, 16, 20]);
+    expect(WinEvaluatorV5.calculateTotalWin(wins)).toEqual(
+      MoneyMath.fromMajor(140)
+    );
+  });
+
+  it("pays every symbol on every line", () => {
+    expect(paidLines(evaluate("payAll", TWO_SYMBOLS))).toEqual([2, 3, 20]);
+  });
+});
+
+describe("highestPerLine", () => {
+  it("adds the wins of different paylines", () => {
+    const wins = evaluate("highestPerLine", OVERLAPPING_CHERRIES);
+
+    expect(paidLines(wins)).toEqual([2, 6, 16, 20]);
+    expect(WinEvaluatorV5.calculateTotalWin(wins)).toEqual(
+      MoneyMath.fromMajor(140)
+    );
+  });
+
+  it("pays one win per payline whatever its direction", () => {
+    GAME_CONFIG.paylineDirection = "bothWays";
+    // Line 1 reads cherries from the left and pears from the right
+    const wins = evaluate("highestPerLine", grid("AKOBK", "CCWPP", "BOAKO"));
+
+    expect(paidLines(wins)).toEqual([1]);
+    expect(wins[0]).toMatchObject({
+      symbol: SymbolType.PEAR,
+      direction: "rightToLeft",
+    });
+  });
+
+  it("keeps the highest of several wins on a payline, whatever the symbol", () => {
+    const [cherries, pears] = ["CCWPP", "PPWCC"].map(
+      (row) =>
+        evaluate("payAll", grid("AKOBK", row, "BOAKO"))[0] as LineWinResult
+    );
+    const wins = [cherries, { ...pears, payline: cherries.payline }];
+
+    expect(WinEvaluatorV5.applyWinPolicy(wins, "highestPerLine")).toEqual([
+      wins[1],
+    ]);
+  });
+});
+
+describe("highestPerSymbol", () => {
+  it("pays a symbol only on its highest winning line", () => {
+    const wins = evaluate("highestPerSymbol", OVERLAPPING_CHERRIES);
+
+    expect(paidLines(wins)).toEqual([2]);
+    expect(WinEvaluatorV5.calculateTotalWin(wins)).toEqual(
+      MoneyMath.fromMajor(80)
+    );
+  });
+
+  it("adds the wins of different symbols and keeps the earlier line on a tie", () => {
+    expect(paidLines(evaluate("highestPerSymbol", TWO_SYMBOLS))).toEqual([
+      2, 3,
+    ]);
+  });
+});
+
+describe("containment", () => {
+  it("drops a win whose positions all lie within a higher win", () => {
+    const wins = evaluate("containment", OVERLAPPING_CHERRIES);
+
+    // Line 20 lies within line 2, and line 16 covers the same cells as line 6
+    expect(paidLines(wins)).toEqual([2, 6]);
+    expect(WinEvaluatorV5.calculateTotalWin(wins)).toEqual(
+      MoneyMath.fromMajor(100)
+    );
+  });
+
+  it("pays wins of equal value on the same cells once", () => {
+    expect(paidLines(evaluate("containment", TWO_SYMBOLS))).toEqual([2, 3]);
+  });
+});
+
+describe("scatter wins", () => {
+  it.each<WinPolicy>([
+    "payAll",
+    "highestPerLine",
+    "highestPerSymbol",
+    "containment",
+  ])("are paid alongside line wins under %s", (policy) => {
+    const wins = evaluate(policy, grid("SKAOP", "CCCSK", "BOPKS"));
+
+    expect(paidLines(wins)).toEqual([1]);
+    expect(wins.filter((win) => win.kind === "scatter")).toHaveLength(1);
+  });
+});
+
+describe("evaluateSpecificPayline", () => {
+  it("pays a line on the line bet of the lines played", () => {
+    const at = (activeLines?: number) =>
+      WinEvaluatorV5.evaluateSpecificPayline(
+        2,
+        OVERLAPPING_CHERRIES,
+        bet,
+        activeLines
+      )?.winAmount;
+
+    expect(at()).toEqual(MoneyMath.fromMajor(80));
+    expect(at(10)).toEqual(MoneyMath.fromMajor(160));
+  });
+});
+
+describe("published rules", () => {
+  // Each policy's rule as the info panel shows it, and the lines it pays on
+  // both fixtures
+  it.each<[WinPolicy, string, number[], number[]]>([
+    ["payAll", "All winning paylines are paid", [2, 6, 16, 20], [2, 3, 20]],
+    [
+      "highestPerLine",
+      "Only the highest win on each payline is paid, whatever its direction or symbol; wins on different paylines are added",
+      [2, 6, 16, 20],
+      [2, 3, 20],
+    ],
+    [
+      "highestPerSymbol",
+      "Each symbol pays only on its highest winning payline; wins of different symbols are added",
+      [2],
+      [2, 3],
+    ],
+    [
+      "containment",
+      "Wins on different paylines are added, except that a win whose symbols all lie within a higher win is not paid",
+      [2, 6],
+      [2, 3],
+    ],
+  ])(
+    "%s pays what the info panel publishes",
+    (policy, rule, overlappingLines, twoSymbolLines) => {
+      expect(InfoPanel.getWinPolicyRule(policy)).toBe(rule);
+
+      for (const [reelResults, lines] of [
+        [OVERLAPPING_CHERRIES, overlappingLines],
+        [TWO_SYMBOLS, twoSymbolLines],
+      ] as const) {
+        const wins = evaluate(policy, reelResults);
+        const analysis = WinEvaluatorV5.analyzeAllPaylines(
+          reelResults,
+          bet,
+          20
+        );
+
+        expect(paidLines(wins)).toEqual(lines);
+        expect(paidLines(analysis.wins)).toEqual(lines);
+        expect(
+          analysis.allResults
+            .filter((result) => result.paid)
+            .map((result) => result.payline.id)
+        ).toEqual(lines);
+        expect(analysis.totalWinAmount).toEqual(
+          WinEvaluatorV5.calculateTotalWin(wins)
+        );
+      }
+    }
+  );
+});
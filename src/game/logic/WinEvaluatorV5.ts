@@ -1,41 +1,193 @@
 import { SymbolType } from "../../types";
 import type {
   WinResult,
+  LineWinResult,
+  ScatterWinResult,
+  WaysWinResult,
+  ClusterWinResult,
+  WinEvaluationMode,
+  WinPolicy,
   PaylineConfig,
+  PaylineDirection,
+  WinDirection,
   Position,
   SpinResult,
+  Money,
 } from "../../types";
-import { getSymbolConfig } from "../symbols/SymbolConfig";
+import {
+  canSubstitute,
+  getSymbolConfig,
+  isScatterSymbol,
+  isWildSymbol,
+} from "../symbols/SymbolConfig";
 import { GAME_CONFIG } from "../config/GameConfig";
+import { Betting } from "./Betting";
+import { MoneyMath } from "./MoneyMath";
 
 export class WinEvaluatorV5 {
+  static get evaluationMode(): WinEvaluationMode {
+    return GAME_CONFIG.evaluationMode ?? "lines";
+  }
+
+  static get winPolicy(): WinPolicy {
+    return GAME_CONFIG.winPolicy ?? "containment";
+  }
+
+  static get paylineDirection(): PaylineDirection {
+    return GAME_CONFIG.paylineDirection ?? "leftToRight";
+  }
+
+  /**
+   * Wins of a grid at a total bet. Lines mode evaluates only the first
+   * `activeLines` paylines.
+   */
   public static evaluateWins(
     reelResults: SymbolType[][],
-    currentBet: number
+    currentBet: Money,
+    activeLines: number = Betting.maxLines
   ): WinResult[] {
-    const paylines = GAME_CONFIG.paylines;
-    const allWins: WinResult[] = [];
+    const mode = this.evaluationMode;
+    const wins =
+      mode === "ways"
+        ? this.evaluateWaysWins(reelResults, currentBet)
+        : mode === "cluster"
+          ? this.evaluateClusterWins(reelResults, currentBet)
+          : this.evaluateLineWins(reelResults, currentBet, activeLines);
+
+    return [...wins, ...this.evaluateScatterWins(reelResults, currentBet)];
+  }
+
+  private static evaluateLineWins(
+    reelResults: SymbolType[][],
+    currentBet: Money,
+    activeLines: number
+  ): WinResult[] {
+    const paylines = Betting.getActivePaylines(activeLines);
+    const linePayBase = Betting.getLinePayBase(currentBet, paylines.length);
+    const allWins: LineWinResult[] = [];
 
     // Evaluate each payline for wins
     paylines.forEach((payline) => {
-      const win = this.evaluatePayline(payline, reelResults, currentBet);
+      const win = this.evaluatePayline(payline, reelResults, linePayBase);
       if (win) {
         allWins.push(win);
       }
     });
 
-    const deduplicatedWins = this.deduplicateOverlappingWins(allWins);
+    return this.applyWinPolicy(allWins);
+  }
+
+  /**
+   * Ways wins: each regular symbol pays for its run of adjacent reels from
+   * the leftmost reel, times the number of ways through the matching rows.
+   * Wilds only substitute here; their own pays and multipliers apply to
+   * line wins.
+   */
+  static evaluateWaysWins(
+    reelResults: SymbolType[][],
+    currentBet: Money
+  ): WaysWinResult[] {
+    const wins: WaysWinResult[] = [];
+
+    for (const config of GAME_CONFIG.symbols) {
+      if (config.wild || config.scatter) {
+        continue;
+      }
+
+      const target = config.type;
+      const positions: Position[] = [];
+      let ways = 1;
+      let reelCount = 0;
+
+      for (const [reel, column] of reelResults.entries()) {
+        const rows = column.flatMap((symbol, row) =>
+          symbol === target || canSubstitute(symbol, target) ? [row] : []
+        );
+        if (rows.length === 0) {
+          break;
+        }
+
+        ways *= rows.length;
+        reelCount++;
+        rows.forEach((row) => positions.push({ reel, row }));
+      }
+
+      const payout = this.getTieredPayout(config.payoutMultipliers, reelCount);
+      const hasTarget = positions.some(
+        (position) => reelResults[position.reel][position.row] === target
+      );
+      if (payout === 0 || !hasTarget) {
+        continue;
+      }
+
+      const multiplier = payout * ways;
+      wins.push({
+        kind: "ways",
+        ways,
+        symbol: target,
+        symbols: positions.map(
+          (position) => reelResults[position.reel][position.row]
+        ),
+        multiplier,
+        winAmount: MoneyMath.multiply(currentBet, multiplier),
+        positions,
+      });
+    }
+
+    return wins;
+  }
+
+  /**
+   * Line wins that are paid under a win policy, in evaluation order.
+   * Ties keep the earlier win.
+   */
+  static applyWinPolicy(
+    wins: LineWinResult[],
+    policy: WinPolicy = this.winPolicy
+  ): LineWinResult[] {
+    switch (policy) {
+      case "payAll":
+        return [...wins];
+      case "highestPerLine":
+        return this.keepHighestPerGroup(wins, (win) => win.payline);
+      case "highestPerSymbol":
+        return this.keepHighestPerGroup(wins, (win) => win.symbol);
+      case "containment":
+        return this.dropContainedWins(wins);
+    }
+  }
+
+  private static keepHighestPerGroup<K>(
+    wins: LineWinResult[],
+    getKey: (win: LineWinResult) => K
+  ): LineWinResult[] {
+    const highest = new Map<K, LineWinResult>();
+
+    wins.forEach((win) => {
+      const key = getKey(win);
+      const current = highest.get(key);
+      if (!current || MoneyMath.compare(win.winAmount, current.winAmount) > 0) {
+        highest.set(key, win);
+      }
+    });
 
-    return deduplicatedWins;
+    const kept = new Set(highest.values());
+    return wins.filter((win) => kept.has(win));
   }
 
-  private static deduplicateOverlappingWins(wins: WinResult[]): WinResult[] {
+  /**
+   * Going from the highest win down, a win is dropped when all its positions
+   * lie within a kept win, and replaces a kept win that lies within it
+   */
+  private static dropContainedWins(wins: LineWinResult[]): LineWinResult[] {
     if (wins.length <= 1) {
       return wins;
     }
 
-    const sortedWins = [...wins].sort((a, b) => b.winAmount - a.winAmount);
-    const keptWins: WinResult[] = [];
+    const sortedWins = [...wins].sort((a, b) =>
+      MoneyMath.compare(b.winAmount, a.winAmount)
+    );
+    const keptWins: LineWinResult[] = [];
 
     for (const currentWin of sortedWins) {
       const isContainedByKeptWin = keptWins.some((keptWin) =>
@@ -56,7 +208,7 @@ export class WinEvaluatorV5 {
       }
     }
 
-    return keptWins;
+    return wins.filter((win) => keptWins.includes(win));
   }
 
   private static isWinCompletelyContainedBy(
@@ -71,9 +223,108 @@ export class WinEvaluatorV5 {
     );
   }
 
+  /**
+   * Cluster wins: groups of orthogonally adjacent cells of a regular symbol,
+   * joined by the wilds that substitute for it, paid by cluster size
+   */
+  static evaluateClusterWins(
+    reelResults: SymbolType[][],
+    currentBet: Money
+  ): ClusterWinResult[] {
+    const wins: ClusterWinResult[] = [];
+
+    for (const config of GAME_CONFIG.symbols) {
+      if (config.wild || config.scatter || !config.clusterPayouts) {
+        continue;
+      }
+
+      const target = config.type;
+      const matches = (symbol: SymbolType) =>
+        symbol === target || canSubstitute(symbol, target);
+      const visited = reelResults.map((column) => column.map(() => false));
+
+      reelResults.forEach((column, reel) => {
+        column.forEach((symbol, row) => {
+          // Clusters grow from real symbols so wilds alone never pay
+          if (symbol !== target || visited[reel][row]) {
+            return;
+          }
+
+          const positions = this.floodFill(
+            reelResults,
+            { reel, row },
+            matches,
+            visited
+          );
+          const multiplier = this.getClusterMultiplier(
+            target,
+            positions.length
+          );
+          if (multiplier > 0) {
+            wins.push({
+              kind: "cluster",
+              size: positions.length,
+              symbol: target,
+              symbols: positions.map(
+                (position) => reelResults[position.reel][position.row]
+              ),
+              multiplier,
+              winAmount: MoneyMath.multiply(currentBet, multiplier),
+              positions,
+            });
+          }
+        });
+      });
+    }
+
+    return wins;
+  }
+
+  /**
+   * Cells connected to the start cell through orthogonal neighbours that
+   * match, marking them visited
+   */
+  private static floodFill(
+    reelResults: SymbolType[][],
+    start: Position,
+    matches: (symbol: SymbolType) => boolean,
+    visited: boolean[][]
+  ): Position[] {
+    const positions: Position[] = [];
+    const stack: Position[] = [start];
+    visited[start.reel][start.row] = true;
+
+    while (stack.length > 0) {
+      const position = stack.pop()!;
+      positions.push(position);
+
+      const neighbours: Position[] = [
+        { reel: position.reel - 1, row: position.row },
+        { reel: position.reel + 1, row: position.row },
+        { reel: position.reel, row: position.row - 1 },
+        { reel: position.reel, row: position.row + 1 },
+      ];
+
+      for (const neighbour of neighbours) {
+        const symbol = reelResults[neighbour.reel]?.[neighbour.row];
+        if (
+          symbol !== undefined &&
+          !visited[neighbour.reel][neighbour.row] &&
+          matches(symbol)
+        ) {
+          visited[neighbour.reel][neighbour.row] = true;
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    return positions.sort((a, b) => a.reel - b.reel || a.row - b.row);
+  }
+
   static async evaluateWinsProgressive(
     reelResults: SymbolType[][],
-    currentBet: number,
+    currentBet: Money,
+    activeLines: number = Betting.maxLines,
     onProgress?: (
       progress: number,
       totalPaylines: number,
@@ -82,13 +333,19 @@ export class WinEvaluatorV5 {
     ) => void,
     delayMs: number = 50
   ): Promise<WinResult[]> {
-    const wins: WinResult[] = [];
-    const paylines = GAME_CONFIG.paylines;
+    // Ways and clusters have no paylines to step through
+    if (this.evaluationMode !== "lines") {
+      return this.evaluateWins(reelResults, currentBet);
+    }
+
+    const wins: LineWinResult[] = [];
+    const paylines = Betting.getActivePaylines(activeLines);
     const totalPaylines = paylines.length;
+    const linePayBase = Betting.getLinePayBase(currentBet, totalPaylines);
 
     for (let i = 0; i < paylines.length; i++) {
       const payline = paylines[i];
-      const win = this.evaluatePayline(payline, reelResults, currentBet);
+      const win = this.evaluatePayline(payline, reelResults, linePayBase);
 
       if (win) {
         wins.push(win);
@@ -102,147 +359,341 @@ export class WinEvaluatorV5 {
       }
     }
 
-    return this.deduplicateOverlappingWins(wins);
+    return [
+      ...this.applyWinPolicy(wins),
+      ...this.evaluateScatterWins(reelResults, currentBet),
+    ];
   }
 
+  /**
+   * Win of a payline in the configured direction; both ways pays the higher
+   * of the two directions. `linePayBase` is what the pay multiplier applies
+   * to, see `Betting.getLinePayBase`.
+   */
   private static evaluatePayline(
     payline: PaylineConfig,
     reelResults: SymbolType[][],
-    currentBet: number
-  ): WinResult | null {
-    const symbols: SymbolType[] = [];
-    const positions: Position[] = [];
-
-    for (const position of payline.positions) {
-      const symbol = reelResults[position.reel][position.row];
-      symbols.push(symbol);
-      positions.push(position);
+    linePayBase: Money
+  ): LineWinResult | null {
+    const directions: WinDirection[] =
+      this.paylineDirection === "bothWays"
+        ? ["leftToRight", "rightToLeft"]
+        : [this.paylineDirection];
+
+    let bestWin: LineWinResult | null = null;
+    for (const direction of directions) {
+      const win = this.evaluatePaylineDirection(
+        payline,
+        reelResults,
+        linePayBase,
+        direction
+      );
+      if (
+        win &&
+        (!bestWin || MoneyMath.compare(win.winAmount, bestWin.winAmount) > 0)
+      ) {
+        bestWin = win;
+      }
     }
 
-    const winInfo = this.checkWinningCombination(symbols);
-    if (!winInfo) {
-      return null;
-    }
+    return bestWin;
+  }
 
-    const { symbolType, count } = winInfo;
-    const symbolConfig = getSymbolConfig(symbolType);
-    const multiplier = symbolConfig.payoutMultipliers[count] || 0;
+  /**
+   * Read a payline from one end. The win's symbols and positions are the
+   * matched run, in reel order.
+   */
+  private static evaluatePaylineDirection(
+    payline: PaylineConfig,
+    reelResults: SymbolType[][],
+    linePayBase: Money,
+    direction: WinDirection
+  ): LineWinResult | null {
+    const positions =
+      direction === "leftToRight"
+        ? [...payline.positions]
+        : [...payline.positions].reverse();
+    const symbols = positions.map(
+      (position) => reelResults[position.reel][position.row]
+    );
 
-    if (multiplier === 0) {
+    const lineWin = this.evaluateLine(symbols);
+    if (!lineWin) {
       return null;
     }
 
-    const winAmount = multiplier * currentBet;
+    const { symbolType, count, multiplier } = lineWin;
+    const winAmount = MoneyMath.multiply(linePayBase, multiplier);
+    const matchedPositions = positions
+      .slice(0, count)
+      .sort((a, b) => a.reel - b.reel);
 
-    const result = {
+    const result: LineWinResult = {
+      kind: "line",
       payline: payline.id,
-      symbols: symbols.slice(0, count),
+      direction,
+      symbol: symbolType,
+      symbols: matchedPositions.map(
+        (position) => reelResults[position.reel][position.row]
+      ),
       multiplier,
       winAmount,
-      positions: positions.slice(0, count),
+      positions: matchedPositions,
     };
 
     return result;
   }
 
+  /**
+   * Scatters pay on their count anywhere on the grid, independent of
+   * paylines, as a multiple of the total bet
+   */
+  static evaluateScatterWins(
+    reelResults: SymbolType[][],
+    currentBet: Money
+  ): ScatterWinResult[] {
+    const wins: ScatterWinResult[] = [];
+
+    for (const config of GAME_CONFIG.symbols) {
+      if (!config.scatter) {
+        continue;
+      }
+
+      const positions: Position[] = [];
+      reelResults.forEach((column, reel) => {
+        column.forEach((symbol, row) => {
+          if (symbol === config.type) {
+            positions.push({ reel, row });
+          }
+        });
+      });
+
+      const multiplier = this.getScatterMultiplier(
+        config.type,
+        positions.length
+      );
+      if (multiplier > 0) {
+        wins.push({
+          kind: "scatter",
+          symbol: config.type,
+          symbols: positions.map(() => config.type),
+          multiplier,
+          winAmount: MoneyMath.multiply(currentBet, multiplier),
+          positions,
+        });
+      }
+    }
+
+    return wins;
+  }
+
+  /**
+   * Scatter pay for a count, from the highest paytable entry the count reaches
+   */
+  static getScatterMultiplier(symbolType: SymbolType, count: number): number {
+    return this.getTieredPayout(
+      getSymbolConfig(symbolType).payoutMultipliers,
+      count
+    );
+  }
+
+  /**
+   * Cluster pay for a size, from the highest cluster paytable entry it reaches
+   */
+  static getClusterMultiplier(symbolType: SymbolType, size: number): number {
+    const clusterPayouts = getSymbolConfig(symbolType).clusterPayouts;
+    return clusterPayouts ? this.getTieredPayout(clusterPayouts, size) : 0;
+  }
+
+  private static getTieredPayout(
+    payouts: { [count: number]: number },
+    count: number
+  ): number {
+    const reachedCounts = Object.keys(payouts)
+      .map(Number)
+      .filter((payingCount) => payingCount <= count);
+
+    if (reachedCounts.length === 0) {
+      return 0;
+    }
+    return payouts[Math.max(...reachedCounts)] || 0;
+  }
+
+  /**
+   * Pay of a single line of symbols read from the leftmost reel,
+   * or null when the line doesn't pay. A line starting with wilds pays
+   * the best of the pure wild line and the symbol the wilds complete.
+   */
+  static evaluateLine(
+    symbols: SymbolType[]
+  ): { symbolType: SymbolType; count: number; multiplier: number } | null {
+    let bestWin: {
+      symbolType: SymbolType;
+      count: number;
+      multiplier: number;
+    } | null = null;
+
+    for (const {
+      symbolType,
+      count,
+      wildMultiplier,
+    } of this.checkWinningCombinations(symbols)) {
+      const symbolConfig = getSymbolConfig(symbolType);
+      const multiplier =
+        this.getTieredPayout(symbolConfig.payoutMultipliers, count) *
+        wildMultiplier;
+
+      if (multiplier > 0 && (!bestWin || multiplier > bestWin.multiplier)) {
+        bestWin = { symbolType, count, multiplier };
+      }
+    }
+
+    return bestWin;
+  }
+
+  /**
+   * Win of one payline at a total bet spread over `activeLines` paylines
+   */
   static evaluateSpecificPayline(
     paylineId: number,
     reelResults: SymbolType[][],
-    currentBet: number
+    currentBet: Money,
+    activeLines: number = Betting.maxLines
   ): WinResult | null {
     const payline = GAME_CONFIG.paylines.find((p) => p.id === paylineId);
     if (!payline) {
       return null;
     }
 
-    return this.evaluatePayline(payline, reelResults, currentBet);
+    return this.evaluatePayline(
+      payline,
+      reelResults,
+      Betting.getLinePayBase(currentBet, activeLines)
+    );
   }
 
+  /**
+   * Every active payline's result, and which of them the win policy pays.
+   * `wins` and `totalWinAmount` are what the spin pays on its lines.
+   */
   static analyzeAllPaylines(
     reelResults: SymbolType[][],
-    currentBet: number
+    currentBet: Money,
+    activeLines: number = Betting.maxLines
   ): {
     wins: WinResult[];
     allResults: Array<{
       payline: PaylineConfig;
       result: WinResult | null;
       hasWin: boolean;
+      paid: boolean;
     }>;
-    totalWinAmount: number;
+    totalWinAmount: Money;
     winningPaylineCount: number;
   } {
-    const wins: WinResult[] = [];
-    const allResults: Array<{
-      payline: PaylineConfig;
-      result: WinResult | null;
-      hasWin: boolean;
-    }> = [];
-
-    let totalWinAmount = 0;
-
-    for (const payline of GAME_CONFIG.paylines) {
-      const result = this.evaluatePayline(payline, reelResults, currentBet);
-      const hasWin = !!result;
-
-      allResults.push({
-        payline,
-        result,
-        hasWin,
-      });
-
-      if (result) {
-        wins.push(result);
-        totalWinAmount += result.winAmount;
-      }
-    }
+    const paylines = Betting.getActivePaylines(activeLines);
+    const linePayBase = Betting.getLinePayBase(currentBet, paylines.length);
+    const lineResults = paylines.map((payline) => ({
+      payline,
+      result: this.evaluatePayline(payline, reelResults, linePayBase),
+    }));
+    const wins = this.applyWinPolicy(
+      lineResults.flatMap(({ result }) => (result ? [result] : []))
+    );
 
     return {
       wins,
-      allResults,
-      totalWinAmount,
-      winningPaylineCount: wins.length,
+      allResults: lineResults.map(({ payline, result }) => ({
+        payline,
+        result,
+        hasWin: !!result,
+        paid: !!result && wins.includes(result),
+      })),
+      totalWinAmount: this.calculateTotalWin(wins),
+      winningPaylineCount: lineResults.filter(({ result }) => result).length,
     };
   }
 
-  private static checkWinningCombination(
+  private static checkWinningCombinations(
     symbols: SymbolType[]
-  ): { symbolType: SymbolType; count: number } | null {
+  ): Array<{ symbolType: SymbolType; count: number; wildMultiplier: number }> {
     if (symbols.length < 3) {
-      return null;
+      return [];
     }
 
+    const combinations: Array<{
+      symbolType: SymbolType;
+      count: number;
+      wildMultiplier: number;
+    }> = [];
     const firstSymbol = symbols[0];
-    let matchCount = 1;
 
-    // Count consecutive matching symbols from left to right
-    for (let i = 1; i < symbols.length; i++) {
-      if (symbols[i] === firstSymbol) {
-        matchCount++;
-      } else {
-        break;
+    // Pure wild line, paid from the wild's own paytable
+    if (isWildSymbol(firstSymbol)) {
+      const count = this.countLeadingMatches(
+        symbols,
+        (symbol) => symbol === firstSymbol
+      );
+      if (count >= 3) {
+        combinations.push({
+          symbolType: firstSymbol,
+          count,
+          wildMultiplier: 1,
+        });
       }
     }
 
-    // Need at least 3 matching symbols for a win
-    if (matchCount >= 3) {
-      return {
-        symbolType: firstSymbol,
-        count: matchCount,
-      };
+    // Line of the first regular symbol, with wilds standing in for it.
+    // Scatters only pay through the scatter evaluation.
+    const targetSymbol = symbols.find((symbol) => !isWildSymbol(symbol));
+    if (targetSymbol && !isScatterSymbol(targetSymbol)) {
+      const count = this.countLeadingMatches(
+        symbols,
+        (symbol) =>
+          symbol === targetSymbol || canSubstitute(symbol, targetSymbol)
+      );
+
+      // Need at least 3 matching symbols for a win
+      if (count >= 3) {
+        const wildMultiplier = symbols
+          .slice(0, count)
+          .filter((symbol) => symbol !== targetSymbol)
+          .reduce(
+            (highest, symbol) =>
+              Math.max(highest, getSymbolConfig(symbol).wild?.multiplier ?? 1),
+            1
+          );
+        combinations.push({ symbolType: targetSymbol, count, wildMultiplier });
+      }
     }
 
-    return null;
+    return combinations;
+  }
+
+  /**
+   * Count consecutive matching symbols from left to right
+   */
+  private static countLeadingMatches(
+    symbols: SymbolType[],
+    matches: (symbol: SymbolType) => boolean
+  ): number {
+    let count = 0;
+    while (count < symbols.length && matches(symbols[count])) {
+      count++;
+    }
+    return count;
   }
 
-  static calculateTotalWin(wins: WinResult[]): number {
-    return wins.reduce((total, win) => total + win.winAmount, 0);
+  static calculateTotalWin(wins: WinResult[]): Money {
+    return MoneyMath.sum(wins.map((win) => win.winAmount));
   }
 
   static createSpinResult(
     reelResults: SymbolType[][],
-    currentBet: number
+    currentBet: Money,
+    activeLines: number = Betting.maxLines
   ): SpinResult {
-    const wins = this.evaluateWins(reelResults, currentBet);
+    const wins = this.evaluateWins(reelResults, currentBet, activeLines);
     const totalWin = this.calculateTotalWin(wins);
 
     return {
@@ -253,35 +704,44 @@ export class WinEvaluatorV5 {
   }
 
   static hasWins(spinResult: SpinResult): boolean {
-    return spinResult.wins.length > 0 && spinResult.totalWin > 0;
+    return (
+      spinResult.wins.length > 0 && MoneyMath.isPositive(spinResult.totalWin)
+    );
   }
 
   static getHighestWin(spinResult: SpinResult): WinResult | null {
     if (!spinResult.wins.length) return null;
     return spinResult.wins.reduce((highest, current) =>
-      current.winAmount > highest.winAmount ? current : highest
+      MoneyMath.compare(current.winAmount, highest.winAmount) > 0
+        ? current
+        : highest
     );
   }
 
   static getWinStatistics(wins: WinResult[]): {
-    totalWin: number;
+    totalWin: Money;
     winCount: number;
     bestWin: WinResult | null;
-    averageWin: number;
-    paylineDistribution: Map<number, number>;
+    averageWin: Money;
+    paylineDistribution: Map<number, Money>;
   } {
     const totalWin = this.calculateTotalWin(wins);
     const winCount = wins.length;
     const bestWin = wins.reduce(
       (best, current) =>
-        !best || current.winAmount > best.winAmount ? current : best,
+        !best || MoneyMath.compare(current.winAmount, best.winAmount) > 0
+          ? current
+          : best,
       null as WinResult | null
     );
-    const averageWin = winCount > 0 ? totalWin / winCount : 0;
+    const averageWin =
+      winCount > 0 ? MoneyMath.multiply(totalWin, 1 / winCount) : totalWin;
 
-    const paylineDistribution = new Map<number, number>();
+    const paylineDistribution = new Map<number, Money>();
     wins.forEach((win) => {
-      paylineDistribution.set(win.payline, win.winAmount);
+      if (win.kind === "line") {
+        paylineDistribution.set(win.payline, win.winAmount);
+      }
     });
 
     return {
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { SymbolType } from "../../types";
+import type { WinPolicy } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import {
+  applyGameDefinition,
+  createGameDefinition,
+} from "../config/GameDefinition";
+import { MoneyMath } from "../logic/MoneyMath";
+import { WinEvaluatorV5 } from "../logic/WinEvaluatorV5";
+import { ParSheetCalculator } from "./ParSheet";
+
+const builtInGame = createGameDefinition("fruit-slot", "Fruit Slot");
+
+afterEach(() => {
+  applyGameDefinition(builtInGame);
+});
+
+const SMALL_GAME_SYMBOLS = [
+  SymbolType.CHERRY,
+  SymbolType.PEAR,
+  SymbolType.WILD,
+  SymbolType.SCATTER,
+];
+
+// Lines 1 and 2 share their first three cells, as do lines 3 and 4
+const SMALL_GAME_LINES = [
+  [0, 0, 0, 0],
+  [0, 0, 0, 1],
+  [1, 1, 1, 1],
+  [1, 1, 1, 0],
+  [0, 1, 0, 1],
+  [1, 0, 1, 0],
+];
+
+/**
+ * Four symbols drawn by weight on a 4x2 grid, small enough to evaluate
+ * every grid
+ */
+function applySmallGame(winPolicy: WinPolicy): void {
+  const { reelStrips: _reelStrips, ...definition } = builtInGame;
+  applyGameDefinition({
+    ...definition,
+    grid: { reels: 4, rows: 2 },
+    winPolicy,
+    symbols: definition.symbols.filter((symbol) =>
+      SMALL_GAME_SYMBOLS.includes(symbol.type)
+    ),
+    paylines: SMALL_GAME_LINES.map((rows, index) => ({
+      id: index + 1,
+      name: `Line ${index + 1}`,
+      rows,
+    })),
+  });
+}
+
+/**
+ * Return of every grid the weights can draw, each evaluated the way a spin
+ * is
+ */
+function evaluateEveryGrid(): number {
+  const { symbols } = GAME_CONFIG;
+  const { count: reelCount, rows: rowCount } = GAME_CONFIG.reels;
+  const totalWeight = symbols.reduce((sum, symbol) => sum + symbol.rarity, 0);
+  const bet = MoneyMath.fromMajor(600);
+  const gridCount = symbols.length ** (reelCount * rowCount);
+  let rtp = 0;
+
+  for (let index = 0; index < gridCount; index++) {
+    let remainder = index;
+    let probability = 1;
+    const grid = Array.from({ length: reelCount }, () =>
+      Array.from({ length: rowCount }, () => {
+        const symbol = symbols[remainder % symbols.length];
+        remainder = Math.floor(remainder / symbols.length);
+        probability *= symbol.rarity / totalWeight;
+        return symbol.type;
+      })
+    );
+
+    const win = WinEvaluatorV5.calculateTotalWin(
+      WinEvaluatorV5.evaluateWins(grid, bet)
+    );
+    rtp += (probability * MoneyMath.toMajor(win)) / MoneyMath.toMajor(bet);
+  }
+
+  return rtp;
+}
+
+describe("weighted reels", () => {
+  it.each<WinPolicy>([
+    "payAll",
+    "highestPerLine",
+    "highestPerSymbol",
+    "containment",
+  ])("match every grid evaluated under %s", (policy) => {
+    applySmallGame(policy);
+
+    const sheet = ParSheetCalculator.calculate();
+
+    expect(sheet.model).toBe("weights");
+    expect(sheet.winPolicy).toBe(policy);
+    expect(sheet.baseRtp).toBeCloseTo(evaluateEveryGrid(), 10);
+  });
+
+  it("pay less when wins on shared cells are dropped", () => {
+    applySmallGame("payAll");
+    const payAll = ParSheetCalculator.calculate();
+    applySmallGame("containment");
+    const containment = ParSheetCalculator.calculate();
+
+    expect(containment.baseRtp).toBeLessThan(payAll.baseRtp);
+    expect(containment.lineHitRate).toBeLessThan(payAll.lineHitRate);
+  });
+});
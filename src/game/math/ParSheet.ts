@@ -0,0 +1,1289 @@
+import { SymbolType } from "../../types";
+import type { LineWinResult, PaylineConfig, WinPolicy } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { WinEvaluatorV5 } from "../logic/WinEvaluatorV5";
+import { MaxWin } from "../logic/MaxWin";
+import { MoneyMath } from "../logic/MoneyMath";
+import { isScatterSymbol } from "../symbols/SymbolConfig";
+import { formatNumber, formatPercent, formatTable } from "./ReportFormatting";
+
+export type ReelModelKind = "strips" | "weights";
+
+export interface ParSheetOptions {
+  /** Defaults to strips when the game config has reel strips */
+  model?: ReelModelKind;
+}
+
+export interface ParSheetEntry {
+  kind: "line" | "scatter";
+  symbol: SymbolType;
+  count: number;
+  multiplier: number;
+  /** Probability of exactly this result, per payline for line results and per spin for scatters */
+  probability: number;
+  /** Reel stop combinations giving this result, counted like the probability; strips only */
+  combinations: number | null;
+  /** Return summed over all paylines, as a fraction of the total bet */
+  rtpContribution: number;
+}
+
+export interface ParSheet {
+  model: ReelModelKind;
+  reelCount: number;
+  rowCount: number;
+  paylineCount: number;
+  /** Policy deciding which overlapping line wins are paid */
+  winPolicy: WinPolicy;
+  /** Number of distinct reel stop combinations; strips only */
+  totalCombinations: number | null;
+  entries: ParSheetEntry[];
+  /**
+   * Return of base-game spins under the win policy, as a fraction of the
+   * bet. Free spins are left out; the simulator plays them.
+   */
+  baseRtp: number;
+  /** Average probability that a single payline pays */
+  lineHitRate: number;
+  /** Probability that a spin pays anything; null when it can't be enumerated */
+  hitRate: number | null;
+  /** Largest base-game spin win before the max win cap */
+  maxWinMultiple: number;
+  /** Configured max win cap as a multiple of the bet, null when uncapped */
+  maxWinCap: number | null;
+  /**
+   * Probability that a single base-game spin reaches the cap on its own;
+   * free spins, which count towards the cap of their round, are left out.
+   * Null when it can't be enumerated.
+   */
+  maxWinCapHitRate: number | null;
+}
+
+interface ReelColumn {
+  symbols: number[];
+  probability: number;
+}
+
+interface LineOutcome {
+  /** Index into the configured symbols */
+  symbol: number;
+  count: number;
+  multiplier: number;
+}
+
+/** Payline states shared by grids while enumerating weighted reels */
+interface PartialGrid {
+  lineStates: number[];
+  probability: number;
+}
+
+interface ReelModel {
+  /** Probability of each symbol index in any single cell of the reel */
+  symbolProbabilities: number[];
+  /** Every stop of a strip reel; null when cells are independent draws */
+  columns: ReelColumn[] | null;
+}
+
+// Line pays are compared as whole units of this many per multiple of the
+// line bet when applying a win policy
+const PAY_SCALE = 1000000;
+
+// Weighted reels are enumerated column by column for the hit rate; beyond
+// this many column pairs the exact hit rate is skipped
+const MAX_COLUMN_PAIRS = 5000000;
+
+// Weighted reels are enumerated under a win policy by payline states; beyond
+// this many partial grids at once the policy can't be enumerated
+const MAX_PARTIAL_GRIDS = 2000000;
+
+/**
+ * Exact line-game figures by combinatorial enumeration.
+ *
+ * Every payline crosses each reel once and the reels are independent, so the
+ * chance of each line result is the product of per-reel symbol probabilities.
+ * Scatter counts are the convolution of the per-reel count distributions.
+ * Under payAll every winning line is paid. Other win policies decide per
+ * grid which overlapping line wins are paid, so they are applied to every
+ * enumerated grid: strip reels by stop, weighted reels by the states the
+ * paylines can be in.
+ */
+export class ParSheetCalculator {
+  static calculate(options: ParSheetOptions = {}): ParSheet {
+    const model =
+      options.model ?? (GAME_CONFIG.reelStrips ? "strips" : "weights");
+    const symbols = GAME_CONFIG.symbols.map((config) => config.type);
+    const direction = WinEvaluatorV5.paylineDirection;
+    // Reels are independent, so right-to-left lines are the reversed lines
+    const paylines =
+      direction === "rightToLeft"
+        ? GAME_CONFIG.paylines.map((payline) => ({
+            ...payline,
+            positions: [...payline.positions].reverse(),
+          }))
+        : GAME_CONFIG.paylines;
+    const reelCount = GAME_CONFIG.reels.count;
+    const rowCount = GAME_CONFIG.reels.rows;
+
+    if (direction === "bothWays") {
+      throw new Error(
+        "Both ways paylines can't be enumerated, use the simulator"
+      );
+    }
+
+    if (paylines.length === 0) {
+      throw new Error("Par sheet needs at least one payline");
+    }
+
+    if ((GAME_CONFIG.evaluationMode ?? "lines") !== "lines") {
+      throw new Error("Par sheet only supports lines evaluation");
+    }
+
+    if (GAME_CONFIG.cascade?.enabled) {
+      throw new Error(
+        "Cascading reels can't be enumerated exactly, use the simulator"
+      );
+    }
+
+    const winPolicy = WinEvaluatorV5.winPolicy;
+    const lineLength = paylines[0].positions.length;
+    if (paylines.some((payline) => payline.positions.length !== lineLength)) {
+      throw new Error("All paylines must cover the same number of reels");
+    }
+
+    const reels = this.buildReelModels(model, symbols, reelCount, rowCount);
+    const { payTable, outcomeTable, outcomes } = this.buildLineTables(
+      symbols,
+      lineLength
+    );
+
+    const outcomeProbabilities = outcomes.map(() => 0);
+    let lineHitProbability = 0;
+
+    for (const payline of paylines) {
+      const probabilities = this.getLineProbabilities(
+        payline,
+        reels,
+        symbols.length
+      );
+
+      probabilities.forEach((probability, tupleIndex) => {
+        const outcome = outcomeTable[tupleIndex];
+        if (outcome >= 0 && probability > 0) {
+          outcomeProbabilities[outcome] += probability;
+          lineHitProbability += probability;
+        }
+      });
+    }
+
+    const maxWinCap = MaxWin.multiplier;
+    const maxWin = this.calculateMaxWin(
+      reels,
+      paylines,
+      symbols,
+      payTable,
+      outcomeTable,
+      outcomes,
+      maxWinCap ?? Infinity,
+      winPolicy
+    );
+
+    // Line results the win policy leaves unpaid
+    maxWin.unpaidProbabilities.forEach((probability, outcome) => {
+      outcomeProbabilities[outcome] -= probability;
+      lineHitProbability -= probability;
+    });
+
+    const totalCombinations =
+      model === "strips"
+        ? reels.reduce((product, reel) => product * reel.columns!.length, 1)
+        : null;
+
+    const toCombinations = (probability: number) =>
+      totalCombinations === null
+        ? null
+        : Math.round(probability * totalCombinations);
+
+    const lineEntries = outcomes.map((outcome, index): ParSheetEntry => {
+      const probability = outcomeProbabilities[index] / paylines.length;
+      return {
+        kind: "line",
+        symbol: symbols[outcome.symbol],
+        count: outcome.count,
+        multiplier: outcome.multiplier,
+        probability,
+        combinations: toCombinations(probability),
+        rtpContribution: outcomeProbabilities[index] * outcome.multiplier,
+      };
+    });
+
+    const scatterEntries = this.getScatterSymbols(symbols).flatMap((scatter) =>
+      this.getScatterCountDistribution(reels, scatter, rowCount).flatMap(
+        (probability, count): ParSheetEntry[] => {
+          const multiplier = WinEvaluatorV5.getScatterMultiplier(
+            symbols[scatter],
+            count
+          );
+          if (multiplier === 0 || probability === 0) {
+            return [];
+          }
+          return [
+            {
+              kind: "scatter",
+              symbol: symbols[scatter],
+              count,
+              multiplier,
+              probability,
+              combinations: toCombinations(probability),
+              rtpContribution: probability * multiplier,
+            },
+          ];
+        }
+      )
+    );
+
+    const entries = [...lineEntries, ...scatterEntries];
+
+    return {
+      model,
+      reelCount,
+      rowCount,
+      paylineCount: paylines.length,
+      winPolicy,
+      totalCombinations,
+      entries,
+      baseRtp: entries.reduce((sum, entry) => sum + entry.rtpContribution, 0),
+      lineHitRate: lineHitProbability / paylines.length,
+      hitRate: this.calculateHitRate(reels, paylines, symbols),
+      maxWinMultiple: maxWin.multiple,
+      maxWinCap,
+      maxWinCapHitRate: maxWin.capHitRate,
+    };
+  }
+
+  private static buildReelModels(
+    model: ReelModelKind,
+    symbols: SymbolType[],
+    reelCount: number,
+    rowCount: number
+  ): ReelModel[] {
+    if (model === "weights") {
+      const totalWeight = GAME_CONFIG.symbols.reduce(
+        (sum, config) => sum + config.rarity,
+        0
+      );
+      const symbolProbabilities = GAME_CONFIG.symbols.map(
+        (config) => config.rarity / totalWeight
+      );
+
+      return Array.from({ length: reelCount }, () => ({
+        symbolProbabilities: [...symbolProbabilities],
+        columns: null,
+      }));
+    }
+
+    const strips = GAME_CONFIG.reelStrips;
+    if (!strips || strips.length !== reelCount) {
+      throw new Error(`Strip model needs ${reelCount} reel strips`);
+    }
+
+    return strips.map((strip, reel) => {
+      const length = strip.symbols.length;
+      const indices = strip.symbols.map((symbol) => {
+        const index = symbols.indexOf(symbol);
+        if (index === -1) {
+          throw new Error(
+            `Reel ${reel + 1} strip has unknown symbol ${symbol}`
+          );
+        }
+        return index;
+      });
+
+      const symbolProbabilities = symbols.map(() => 0);
+      indices.forEach((index) => {
+        symbolProbabilities[index] += 1 / length;
+      });
+
+      const columns = indices.map((_, stop) => ({
+        symbols: Array.from(
+          { length: rowCount },
+          (_, row) => indices[(stop + row) % length]
+        ),
+        probability: 1 / length,
+      }));
+
+      return { symbolProbabilities, columns };
+    });
+  }
+
+  /**
+   * Evaluate every possible line of symbol indices once. Tuples are indexed
+   * with the first reel as the most significant digit.
+   */
+  private static buildLineTables(
+    symbols: SymbolType[],
+    lineLength: number
+  ): {
+    payTable: Float64Array;
+    outcomeTable: Int16Array;
+    outcomes: LineOutcome[];
+  } {
+    const symbolCount = symbols.length;
+    const tableSize = symbolCount ** lineLength;
+    const payTable = new Float64Array(tableSize);
+    const outcomeTable = new Int16Array(tableSize).fill(-1);
+    const outcomes: LineOutcome[] = [];
+    const outcomeIndex = new Map<string, number>();
+
+    for (let tupleIndex = 0; tupleIndex < tableSize; tupleIndex++) {
+      const line = this.decodeTuple(tupleIndex, symbolCount, lineLength).map(
+        (index) => symbols[index]
+      );
+      const lineWin = WinEvaluatorV5.evaluateLine(line);
+      if (!lineWin) {
+        continue;
+      }
+
+      const key = `${lineWin.symbolType}:${lineWin.count}:${lineWin.multiplier}`;
+      let index = outcomeIndex.get(key);
+      if (index === undefined) {
+        index = outcomes.length;
+        outcomeIndex.set(key, index);
+        outcomes.push({
+          symbol: symbols.indexOf(lineWin.symbolType),
+          count: lineWin.count,
+          multiplier: lineWin.multiplier,
+        });
+      }
+
+      payTable[tupleIndex] = lineWin.multiplier;
+      outcomeTable[tupleIndex] = index;
+    }
+
+    // Order results by symbol and count, then re-point the outcome table
+    const sortedOutcomes = [...outcomes].sort(
+      (a, b) =>
+        a.symbol - b.symbol || a.count - b.count || a.multiplier - b.multiplier
+    );
+    const sortedIndex = outcomes.map((outcome) =>
+      sortedOutcomes.indexOf(outcome)
+    );
+    outcomeTable.forEach((index, tupleIndex) => {
+      if (index >= 0) {
+        outcomeTable[tupleIndex] = sortedIndex[index];
+      }
+    });
+
+    return { payTable, outcomeTable, outcomes: sortedOutcomes };
+  }
+
+  private static decodeTuple(
+    tupleIndex: number,
+    symbolCount: number,
+    lineLength: number
+  ): number[] {
+    const digits = new Array<number>(lineLength);
+    let remainder = tupleIndex;
+    for (let position = lineLength - 1; position >= 0; position--) {
+      digits[position] = remainder % symbolCount;
+      remainder = Math.floor(remainder / symbolCount);
+    }
+    return digits;
+  }
+
+  /**
+   * Probability of every symbol tuple along one payline
+   */
+  private static getLineProbabilities(
+    payline: PaylineConfig,
+    reels: ReelModel[],
+    symbolCount: number
+  ): Float64Array {
+    let probabilities = new Float64Array([1]);
+
+    for (const position of payline.positions) {
+      const reelProbabilities = reels[position.reel].symbolProbabilities;
+      const next = new Float64Array(probabilities.length * symbolCount);
+
+      probabilities.forEach((probability, prefix) => {
+        if (probability === 0) {
+          return;
+        }
+        for (let symbol = 0; symbol < symbolCount; symbol++) {
+          next[prefix * symbolCount + symbol] =
+            probability * reelProbabilities[symbol];
+        }
+      });
+
+      probabilities = next;
+    }
+
+    return probabilities;
+  }
+
+  /**
+   * Exact chance that a spin pays anything. Assumes three of a kind is the
+   * shortest paying line, so whether a line pays is decided by the first
+   * three reels it crosses. Supports at most one scatter symbol.
+   */
+  private static calculateHitRate(
+    reels: ReelModel[],
+    paylines: PaylineConfig[],
+    symbols: SymbolType[]
+  ): number | null {
+    const symbolCount = symbols.length;
+    const rowCount = GAME_CONFIG.reels.rows;
+    const prefixHits = this.buildPrefixHitTable(symbols);
+
+    const scatters = this.getScatterSymbols(symbols);
+    if (scatters.length > 1) {
+      return null;
+    }
+    const scatter = scatters[0] ?? -1;
+    const scatterMinimum =
+      scatter === -1
+        ? Infinity
+        : this.getScatterMinimum(symbols[scatter], reels.length * rowCount);
+
+    const firstColumns = this.getColumns(reels[0], rowCount);
+    const secondColumns = this.getColumns(reels[1], rowCount);
+    if (firstColumns.length * secondColumns.length > MAX_COLUMN_PAIRS) {
+      return null;
+    }
+
+    // Chance that the reels after the third show fewer than n scatters
+    const tailDistribution = this.getScatterCountDistribution(
+      reels.slice(3),
+      scatter,
+      rowCount
+    );
+    const tailBelow = (n: number) =>
+      tailDistribution
+        .slice(0, Math.max(0, n))
+        .reduce((sum, probability) => sum + probability, 0);
+
+    const third = reels[2];
+    const lineRows = paylines.map((payline) =>
+      payline.positions.slice(0, 3).map((position) => position.row)
+    );
+    const required = new Uint8Array(rowCount * symbolCount);
+    let missProbability = 0;
+
+    for (const first of firstColumns) {
+      for (const second of secondColumns) {
+        required.fill(0);
+
+        for (const [row0, row1, row2] of lineRows) {
+          const base =
+            (first.symbols[row0] * symbolCount + second.symbols[row1]) *
+            symbolCount;
+          for (let symbol = 0; symbol < symbolCount; symbol++) {
+            if (prefixHits[base + symbol]) {
+              required[row2 * symbolCount + symbol] = 1;
+            }
+          }
+        }
+
+        // Chance of no line hit on the third reel, by its scatter count
+        const thirdMisses = new Array<number>(rowCount + 1).fill(0);
+        if (third.columns) {
+          for (const column of third.columns) {
+            if (
+              !column.symbols.some(
+                (symbol, row) => required[row * symbolCount + symbol]
+              )
+            ) {
+              thirdMisses[this.countSymbol(column.symbols, scatter)] +=
+                column.probability;
+            }
+          }
+        } else {
+          // Independent cells: every row has to miss on its own
+          thirdMisses[0] = 1;
+          for (let row = 0; row < rowCount; row++) {
+            let scatterMiss = 0;
+            let otherMiss = 0;
+            for (let symbol = 0; symbol < symbolCount; symbol++) {
+              if (required[row * symbolCount + symbol]) {
+                continue;
+              }
+              if (symbol === scatter) {
+                scatterMiss += third.symbolProbabilities[symbol];
+              } else {
+                otherMiss += third.symbolProbabilities[symbol];
+              }
+            }
+            for (let count = row + 1; count >= 0; count--) {
+              thirdMisses[count] =
+                thirdMisses[count] * otherMiss +
+                (count > 0 ? thirdMisses[count - 1] * scatterMiss : 0);
+            }
+          }
+        }
+
+        const shownScatters =
+          this.countSymbol(first.symbols, scatter) +
+          this.countSymbol(second.symbols, scatter);
+        thirdMisses.forEach((probability, count) => {
+          missProbability +=
+            first.probability *
+            second.probability *
+            probability *
+            tailBelow(scatterMinimum - shownScatters - count);
+        });
+      }
+    }
+
+    return 1 - missProbability;
+  }
+
+  private static getScatterSymbols(symbols: SymbolType[]): number[] {
+    return symbols
+      .map((_, index) => index)
+      .filter((index) => isScatterSymbol(symbols[index]));
+  }
+
+  /**
+   * Smallest scatter count that pays
+   */
+  private static getScatterMinimum(
+    symbolType: SymbolType,
+    maxCount: number
+  ): number {
+    for (let count = 1; count <= maxCount; count++) {
+      if (WinEvaluatorV5.getScatterMultiplier(symbolType, count) > 0) {
+        return count;
+      }
+    }
+    return Infinity;
+  }
+
+  private static countSymbol(column: number[], symbol: number): number {
+    return column.filter((cell) => cell === symbol).length;
+  }
+
+  /**
+   * Probability of each total count of a symbol across the given reels
+   */
+  private static getScatterCountDistribution(
+    reels: ReelModel[],
+    scatter: number,
+    rowCount: number
+  ): number[] {
+    let distribution = [1];
+
+    for (const reel of reels) {
+      const reelDistribution = new Array<number>(rowCount + 1).fill(0);
+      if (reel.columns) {
+        reel.columns.forEach((column) => {
+          reelDistribution[this.countSymbol(column.symbols, scatter)] +=
+            column.probability;
+        });
+      } else {
+        // Binomial count over independent cells
+        const p = scatter === -1 ? 0 : reel.symbolProbabilities[scatter];
+        for (let count = 0; count <= rowCount; count++) {
+          reelDistribution[count] =
+            this.binomial(rowCount, count) *
+            p ** count *
+            (1 - p) ** (rowCount - count);
+        }
+      }
+
+      const next = new Array<number>(
+        distribution.length + reelDistribution.length - 1
+      ).fill(0);
+      distribution.forEach((probability, count) => {
+        reelDistribution.forEach((reelProbability, reelCount) => {
+          next[count + reelCount] += probability * reelProbability;
+        });
+      });
+      distribution = next;
+    }
+
+    return distribution;
+  }
+
+  private static binomial(n: number, k: number): number {
+    let result = 1;
+    for (let i = 1; i <= k; i++) {
+      result = (result * (n - k + i)) / i;
+    }
+    return result;
+  }
+
+  private static buildPrefixHitTable(symbols: SymbolType[]): Uint8Array {
+    const symbolCount = symbols.length;
+    const table = new Uint8Array(symbolCount ** 3);
+
+    for (let index = 0; index < table.length; index++) {
+      const prefix = this.decodeTuple(index, symbolCount, 3).map(
+        (symbol) => symbols[symbol]
+      );
+      table[index] = WinEvaluatorV5.evaluateLine(prefix) ? 1 : 0;
+    }
+
+    return table;
+  }
+
+  private static getColumns(reel: ReelModel, rowCount: number): ReelColumn[] {
+    if (reel.columns) {
+      return reel.columns;
+    }
+
+    const symbolCount = reel.symbolProbabilities.length;
+    const columns: ReelColumn[] = [];
+    const total = symbolCount ** rowCount;
+
+    for (let index = 0; index < total; index++) {
+      const column = this.decodeTuple(index, symbolCount, rowCount);
+      columns.push({
+        symbols: column,
+        probability: column.reduce(
+          (product, symbol) => product * reel.symbolProbabilities[symbol],
+          1
+        ),
+      });
+    }
+
+    return columns;
+  }
+
+  /**
+   * Largest total spin win in multiples of the bet. Strip reels are searched
+   * over every stop combination, skipping the last reels whenever the first
+   * three pay nothing and adding scatter pays at the end; a grid with no line
+   * win pays at most the best scatter count the strips can show. Weighted
+   * reels can show any grid, so the best grid is the one where every line
+   * carries the best paying symbol, or every cell is a scatter; under any
+   * policy but payAll the best paid line total comes from enumerating the
+   * payline states.
+   *
+   * The same search sums the probability of the strip grids paying at least
+   * `cap` in a single base-game spin. Weighted reels only get an exact cap
+   * hit rate when the best grid stays below the cap.
+   *
+   * Under any policy but payAll, each grid with more than one line win pays
+   * only the wins the policy keeps; the probability of the line results it
+   * drops is summed per outcome, over all paylines.
+   */
+  private static calculateMaxWin(
+    reels: ReelModel[],
+    paylines: PaylineConfig[],
+    symbols: SymbolType[],
+    payTable: Float64Array,
+    outcomeTable: Int16Array,
+    outcomes: LineOutcome[],
+    cap: number,
+    winPolicy: WinPolicy
+  ): {
+    multiple: number;
+    capHitRate: number | null;
+    unpaidProbabilities: Map<number, number>;
+  } {
+    const symbolCount = symbols.length;
+    const lineLength = paylines[0].positions.length;
+    const rowCount = GAME_CONFIG.reels.rows;
+    const scatters = this.getScatterSymbols(symbols);
+    // Scatter pay by scatter symbol and count
+    const scatterPays = scatters.map((scatter) =>
+      Array.from({ length: reels.length * rowCount + 1 }, (_, count) =>
+        WinEvaluatorV5.getScatterMultiplier(symbols[scatter], count)
+      )
+    );
+    const scatterPay = (counts: number[]) =>
+      counts.reduce((sum, count, index) => sum + scatterPays[index][count], 0);
+
+    if (reels.some((reel) => !reel.columns)) {
+      let best = Math.max(
+        0,
+        ...scatters.map((scatter) =>
+          WinEvaluatorV5.getScatterMultiplier(
+            symbols[scatter],
+            reels.length * rowCount
+          )
+        )
+      );
+      if (winPolicy !== "payAll") {
+        const weighted = this.calculateWeightedPolicy(
+          reels,
+          paylines,
+          symbols,
+          outcomeTable,
+          outcomes,
+          winPolicy
+        );
+        best = Math.max(best, weighted.bestLinePay);
+        return {
+          multiple: best,
+          capHitRate: best < cap ? 0 : null,
+          unpaidProbabilities: weighted.unpaidProbabilities,
+        };
+      }
+
+      for (let symbol = 0; symbol < symbolCount; symbol++) {
+        if (reels.some((reel) => reel.symbolProbabilities[symbol] === 0)) {
+          continue;
+        }
+        let uniformIndex = 0;
+        for (let position = 0; position < lineLength; position++) {
+          uniformIndex = uniformIndex * symbolCount + symbol;
+        }
+        best = Math.max(best, payTable[uniformIndex] * paylines.length);
+      }
+      return {
+        multiple: best,
+        capHitRate: best < cap ? 0 : null,
+        unpaidProbabilities: new Map(),
+      };
+    }
+
+    const prefixHits = this.buildPrefixHitTable(symbols);
+    const columns = reels.map((reel) => reel.columns!);
+    const stops = new Array<number>(reels.length).fill(0);
+    const allLines = paylines.map((_, index) => index);
+    // Most scatters each strip can show at once
+    // Scatters shown at every stop, by scatter symbol and reel
+    const scatterCounts = scatters.map((scatter) =>
+      columns.map((reelColumns) =>
+        reelColumns.map((column) => this.countSymbol(column.symbols, scatter))
+      )
+    );
+    const scatterPayAtStops = () => {
+      let pay = 0;
+      scatterCounts.forEach((reelCounts, index) => {
+        let count = 0;
+        for (let reel = 0; reel < reelCounts.length; reel++) {
+          count += reelCounts[reel][stops[reel]];
+        }
+        pay += scatterPays[index][count];
+      });
+      return pay;
+    };
+
+    // Best scatter-only grid: the most scatters each strip can show at once
+    let best = scatterPay(
+      scatterCounts.map((reelCounts) =>
+        reelCounts.reduce((sum, counts) => sum + Math.max(...counts), 0)
+      )
+    );
+    // Grids without a line win only need searching when scatters alone can
+    // reach the cap
+    const scattersReachCap = best >= cap;
+    let capHitRate = 0;
+
+    const unpaidProbabilities = new Map<number, number>();
+
+    const cellAt = (position: { reel: number; row: number }) =>
+      columns[position.reel][stops[position.reel]].symbols[position.row];
+    const stopsProbability = () =>
+      stops.reduce(
+        (probability, stop, index) =>
+          probability * columns[index][stop].probability,
+        1
+      );
+    const tupleAt = (line: number) => {
+      let tupleIndex = 0;
+      for (const position of paylines[line].positions) {
+        tupleIndex = tupleIndex * symbolCount + cellAt(position);
+      }
+      return tupleIndex;
+    };
+
+    // Which wins a policy pays depends only on the lines hit and their
+    // results, so it's worked out once per combination
+    const paidMasks = new Map<string, boolean[]>();
+    const getPaidMask = (hitLines: number[], lineOutcomes: number[]) => {
+      const key = hitLines
+        .map((line, index) => `${line}:${lineOutcomes[index]}`)
+        .join(",");
+      let mask = paidMasks.get(key);
+      if (!mask) {
+        mask = this.getPaidMask(
+          paylines,
+          symbols,
+          outcomes,
+          winPolicy,
+          hitLines,
+          lineOutcomes
+        );
+        paidMasks.set(key, mask);
+      }
+      return mask;
+    };
+
+    // Line pays of the grid at the current stops under the win policy
+    const linePayAtStops = (hitLines: number[]) => {
+      const tuples = hitLines.map(tupleAt);
+      if (winPolicy === "payAll" || hitLines.length < 2) {
+        return tuples.reduce((sum, tuple) => sum + payTable[tuple], 0);
+      }
+
+      const lineOutcomes = tuples.map((tuple) => outcomeTable[tuple]);
+      const mask = getPaidMask(hitLines, lineOutcomes);
+      let total = 0;
+      let probability = -1;
+      mask.forEach((paid, index) => {
+        if (paid) {
+          total += payTable[tuples[index]];
+          return;
+        }
+        if (probability < 0) {
+          probability = stopsProbability();
+        }
+        unpaidProbabilities.set(
+          lineOutcomes[index],
+          (unpaidProbabilities.get(lineOutcomes[index]) ?? 0) + probability
+        );
+      });
+      return total;
+    };
+
+    const visit = (reel: number, activeLines: number[]) => {
+      if (reel === reels.length) {
+        const total = linePayAtStops(activeLines) + scatterPayAtStops();
+        best = Math.max(best, total);
+        if (total >= cap) {
+          capHitRate += stopsProbability();
+        }
+        return;
+      }
+
+      for (let stop = 0; stop < columns[reel].length; stop++) {
+        stops[reel] = stop;
+
+        if (reel === 2) {
+          const hitLines = activeLines.filter((line) => {
+            const [first, second, third] = paylines[line].positions;
+            return prefixHits[
+              (cellAt(first) * symbolCount + cellAt(second)) * symbolCount +
+                cellAt(third)
+            ];
+          });
+          if (hitLines.length > 0 || scattersReachCap) {
+            visit(reel + 1, hitLines);
+          }
+        } else {
+          visit(reel + 1, activeLines);
+        }
+      }
+    };
+
+    visit(0, allLines);
+    return { multiple: best, capHitRate, unpaidProbabilities };
+  }
+
+  /**
+   * Whether each of the given line results is paid under a win policy
+   */
+  private static getPaidMask(
+    paylines: PaylineConfig[],
+    symbols: SymbolType[],
+    outcomes: LineOutcome[],
+    winPolicy: WinPolicy,
+    hitLines: number[],
+    lineOutcomes: number[]
+  ): boolean[] {
+    const wins = hitLines.map((line, index): LineWinResult => {
+      const { symbol, count, multiplier } = outcomes[lineOutcomes[index]];
+      const positions = paylines[line].positions
+        .slice(0, count)
+        .sort((a, b) => a.reel - b.reel);
+      return {
+        kind: "line",
+        payline: paylines[line].id,
+        direction: "leftToRight",
+        symbol: symbols[symbol],
+        symbols: positions.map(() => symbols[symbol]),
+        multiplier,
+        winAmount: MoneyMath.fromMinor(Math.round(multiplier * PAY_SCALE)),
+        positions,
+      };
+    });
+    const paid = WinEvaluatorV5.applyWinPolicy(wins, winPolicy);
+    return wins.map((win) => paid.includes(win));
+  }
+
+  /**
+   * Paylines whose wins a policy weighs against each other. Containment only
+   * compares wins on paylines crossing the same rows for at least the
+   * shortest paying count, and a payline never has more than one win.
+   */
+  private static getPolicyGroups(
+    paylines: PaylineConfig[],
+    outcomes: LineOutcome[],
+    winPolicy: WinPolicy
+  ): number[][] {
+    const allLines = paylines.map((_, line) => line);
+
+    switch (winPolicy) {
+      case "payAll":
+      case "highestPerLine":
+        return allLines.map((line) => [line]);
+      case "highestPerSymbol":
+        return [allLines];
+      case "containment": {
+        const shortest = Math.min(...outcomes.map((outcome) => outcome.count));
+        const groups = new Map<string, number[]>();
+        allLines.forEach((line) => {
+          const key = paylines[line].positions
+            .slice(0, shortest)
+            .map((position) => position.row)
+            .join(",");
+          groups.set(key, [...(groups.get(key) ?? []), line]);
+        });
+        return [...groups.values()];
+      }
+    }
+  }
+
+  /**
+   * Line results a win policy leaves unpaid on weighted reels, and the most
+   * the paid line wins of one grid add up to.
+   *
+   * Weighted reels can show any grid, far too many to list, but a payline
+   * only needs to know which of its results are still possible. Line
+   * prefixes with the same possible results share a state, and grids are
+   * built up cell by cell, branching only on symbols that move the paylines
+   * crossing the cell into different states and merging grids that leave
+   * every payline in the same state. A grid is finished as soon as every
+   * payline's result is settled. Each group of paylines the policy weighs
+   * against each other is enumerated on its own.
+   */
+  private static calculateWeightedPolicy(
+    reels: ReelModel[],
+    paylines: PaylineConfig[],
+    symbols: SymbolType[],
+    outcomeTable: Int16Array,
+    outcomes: LineOutcome[],
+    winPolicy: WinPolicy
+  ): { unpaidProbabilities: Map<number, number>; bestLinePay: number } {
+    const symbolCount = symbols.length;
+    const lineLength = paylines[0].positions.length;
+    const rowCount = GAME_CONFIG.reels.rows;
+    const states = this.buildLineStates(outcomeTable, symbolCount, lineLength);
+
+    // Reel crossed at each step, and the paylines crossing each row there
+    const stepReels = paylines[0].positions.map((position) => position.reel);
+    const linesByRow = stepReels.map((reel, step) =>
+      Array.from({ length: rowCount }, (_, row) =>
+        paylines.flatMap((payline, line) => {
+          const position = payline.positions[step];
+          if (position.reel !== reel) {
+            throw new Error(
+              "Paylines must cross the reels in the same order to be enumerated"
+            );
+          }
+          return position.row === row ? [line] : [];
+        })
+      )
+    );
+
+    const unpaidProbabilities = new Map<number, number>();
+    let bestLinePay = 0;
+
+    // A payline's state after `step` reels, or its settled result encoded
+    // as -2 - outcome (-1 for no win)
+    const settle = (step: number, state: number) => {
+      const outcome = states[step].settled.get(state);
+      return outcome === undefined ? state : -2 - outcome;
+    };
+
+    let groupBest = 0;
+    const finishGrid = (lineStates: number[], probability: number) => {
+      const hitLines: number[] = [];
+      const lineOutcomes: number[] = [];
+      lineStates.forEach((state, line) => {
+        if (state <= -2) {
+          hitLines.push(line);
+          lineOutcomes.push(-2 - state);
+        }
+      });
+
+      const mask =
+        hitLines.length < 2
+          ? hitLines.map(() => true)
+          : this.getPaidMask(
+              paylines,
+              symbols,
+              outcomes,
+              winPolicy,
+              hitLines,
+              lineOutcomes
+            );
+      let total = 0;
+      mask.forEach((paid, index) => {
+        const outcome = lineOutcomes[index];
+        if (paid) {
+          total += outcomes[outcome].multiplier;
+          return;
+        }
+        unpaidProbabilities.set(
+          outcome,
+          (unpaidProbabilities.get(outcome) ?? 0) + probability
+        );
+      });
+      groupBest = Math.max(groupBest, total);
+    };
+
+    for (const group of this.getPolicyGroups(paylines, outcomes, winPolicy)) {
+      // Paylines outside the group count as settled without a win
+      let grids = new Map<string, PartialGrid>([
+        [
+          "",
+          {
+            lineStates: paylines.map((_, line) =>
+              group.includes(line) ? settle(0, 0) : -1
+            ),
+            probability: 1,
+          },
+        ],
+      ]);
+
+      for (let step = 0; step < lineLength; step++) {
+        const { transitions } = states[step];
+        const symbolProbabilities = reels[stepReels[step]].symbolProbabilities;
+
+        for (let row = 0; row < rowCount; row++) {
+          const nextGrids = new Map<string, PartialGrid>();
+          const addGrid = (lineStates: number[], probability: number) => {
+            const key = lineStates.join(",");
+            const grid = nextGrids.get(key);
+            if (grid) {
+              grid.probability += probability;
+            } else {
+              nextGrids.set(key, { lineStates, probability });
+            }
+          };
+
+          grids.forEach(({ lineStates, probability }) => {
+            const lines = linesByRow[step][row].filter(
+              (line) => lineStates[line] >= 0
+            );
+            if (lines.length === 0) {
+              addGrid(lineStates, probability);
+              return;
+            }
+
+            // Symbols moving every payline here into the same state branch
+            // together
+            const branches = new Map<string, PartialGrid>();
+            for (let symbol = 0; symbol < symbolCount; symbol++) {
+              if (symbolProbabilities[symbol] === 0) {
+                continue;
+              }
+              const next = lines.map((line) =>
+                settle(
+                  step + 1,
+                  transitions[lineStates[line] * symbolCount + symbol]
+                )
+              );
+              const key = next.join(",");
+              const branch = branches.get(key);
+              if (branch) {
+                branch.probability += symbolProbabilities[symbol];
+              } else {
+                branches.set(key, {
+                  lineStates: next,
+                  probability: symbolProbabilities[symbol],
+                });
+              }
+            }
+
+            branches.forEach((branch) => {
+              const nextStates = [...lineStates];
+              lines.forEach((line, index) => {
+                nextStates[line] = branch.lineStates[index];
+              });
+              addGrid(nextStates, probability * branch.probability);
+            });
+          });
+
+          if (nextGrids.size > MAX_PARTIAL_GRIDS) {
+            throw new Error(
+              `Win policy ${winPolicy} has too many grids to enumerate on weighted reels, use the simulator`
+            );
+          }
+          grids = nextGrids;
+        }
+
+        grids.forEach((grid, key) => {
+          if (grid.lineStates.every((state) => state < 0)) {
+            finishGrid(grid.lineStates, grid.probability);
+            grids.delete(key);
+          }
+        });
+      }
+
+      bestLinePay += groupBest;
+      groupBest = 0;
+    }
+
+    return { unpaidProbabilities, bestLinePay };
+  }
+
+  /**
+   * States of a payline after each number of reels: prefixes with the same
+   * result for every way the line can go on share a state. Built from the
+   * full lines back to the empty prefix, whose single state is 0.
+   */
+  private static buildLineStates(
+    outcomeTable: Int16Array,
+    symbolCount: number,
+    lineLength: number
+  ): {
+    /** Next state by state * symbol count + symbol */
+    transitions: Int32Array;
+    /** Result of the states whose result is already decided, -1 for no win */
+    settled: Map<number, number>;
+  }[] {
+    // State of every full line: one per result
+    let prefixStates = new Int32Array(outcomeTable.length);
+    const resultStates = new Map<number, number>();
+    const lastSettled = new Map<number, number>();
+    outcomeTable.forEach((outcome, tupleIndex) => {
+      let state = resultStates.get(outcome);
+      if (state === undefined) {
+        state = resultStates.size;
+        resultStates.set(outcome, state);
+        lastSettled.set(state, outcome);
+      }
+      prefixStates[tupleIndex] = state;
+    });
+
+    const levels = [{ transitions: new Int32Array(0), settled: lastSettled }];
+    for (let length = lineLength - 1; length >= 0; length--) {
+      const childSettled = levels[0].settled;
+      const prefixCount = symbolCount ** length;
+      const states = new Map<string, number>();
+      const transitions: number[] = [];
+      const settled = new Map<number, number>();
+      const nextPrefixStates = new Int32Array(prefixCount);
+
+      for (let prefix = 0; prefix < prefixCount; prefix++) {
+        const children = prefixStates.subarray(
+          prefix * symbolCount,
+          (prefix + 1) * symbolCount
+        );
+        const key = children.join(",");
+        let state = states.get(key);
+        if (state === undefined) {
+          state = states.size;
+          states.set(key, state);
+          transitions.push(...children);
+
+          const results = new Set(
+            Array.from(children, (child) => childSettled.get(child))
+          );
+          const [result] = results;
+          if (results.size === 1 && result !== undefined) {
+            settled.set(state, result);
+          }
+        }
+        nextPrefixStates[prefix] = state;
+      }
+
+      levels.unshift({ transitions: Int32Array.from(transitions), settled });
+      prefixStates = nextPrefixStates;
+    }
+
+    return levels;
+  }
+}
+
+export function formatParSheet(sheet: ParSheet): string {
+  const summary = formatTable(
+    "Par sheet",
+    ["Metric", "Value"],
+    [
+      ["Reel model", sheet.model],
+      ["Grid", `${sheet.reelCount}x${sheet.rowCount}`],
+      ["Paylines", sheet.paylineCount],
+      ["Win policy", sheet.winPolicy],
+      [
+        "Stop combinations",
+        sheet.totalCombinations === null ? "-" : sheet.totalCombinations,
+      ],
+      [
+        `Base game RTP (${sheet.winPolicy}, no free spins)`,
+        formatPercent(sheet.baseRtp, 4),
+      ],
+      [
+        "Hit rate",
+        sheet.hitRate === null ? "-" : formatPercent(sheet.hitRate, 4),
+      ],
+      ["Line hit rate", formatPercent(sheet.lineHitRate, 4)],
+      ["Max win (base spins)", `${formatNumber(sheet.maxWinMultiple, 2)}x`],
+      ["Max win cap", sheet.maxWinCap === null ? "-" : `${sheet.maxWinCap}x`],
+      [
+        "Max win cap hit rate (base spins)",
+        sheet.maxWinCapHitRate === null
+          ? "-"
+          : formatPercent(sheet.maxWinCapHitRate, 6),
+      ],
+    ]
+  );
+
+  const formatEntries = (
+    title: string,
+    probabilityHeader: string,
+    kind: ParSheetEntry["kind"]
+  ) =>
+    formatTable(
+      title,
+      ["Symbol", "Count", "Pays", probabilityHeader, "Combinations", "RTP"],
+      sheet.entries
+        .filter((entry) => entry.kind === kind)
+        .map((entry) => [
+          entry.symbol,
+          entry.count,
+          `${entry.multiplier}x`,
+          entry.probability.toExponential(6),
+          entry.combinations === null ? "-" : entry.combinations,
+          formatPercent(entry.rtpContribution, 4),
+        ])
+    );
+
+  const sections = [
+    summary,
+    formatEntries("Line results", "Line probability", "line"),
+  ];
+  if (sheet.entries.some((entry) => entry.kind === "scatter")) {
+    sections.push(
+      formatEntries("Scatter results", "Spin probability", "scatter")
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+export function formatParSheetCsv(sheet: ParSheet): string {
+  const lines = [
+    "kind,symbol,count,multiplier,probability,combinations,rtp_contribution",
+    ...sheet.entries.map((entry) =>
+      [
+        entry.kind,
+        entry.symbol,
+        entry.count,
+        entry.multiplier,
+        entry.probability,
+        entry.combinations ?? "",
+        entry.rtpContribution,
+      ].join(",")
+    ),
+    "",
+    "metric,value",
+    `model,${sheet.model}`,
+    `reels,${sheet.reelCount}`,
+    `rows,${sheet.rowCount}`,
+    `paylines,${sheet.paylineCount}`,
+    `win_policy,${sheet.winPolicy}`,
+    `total_combinations,${sheet.totalCombinations ?? ""}`,
+    `base_rtp,${sheet.baseRtp}`,
+    `hit_rate,${sheet.hitRate ?? ""}`,
+    `line_hit_rate,${sheet.lineHitRate}`,
+    `max_win_multiple,${sheet.maxWinMultiple}`,
+    `max_win_cap,${sheet.maxWinCap ?? ""}`,
+    `max_win_cap_hit_rate,${sheet.maxWinCapHitRate ?? ""}`,
+  ];
+
+  return lines.join("\n");
+}
@@ -0,0 +1,37 @@
+export function formatPercent(value: number, digits: number = 2): string {
+  return `${(value * 100).toFixed(digits)}%`;
+}
+
+export function formatNumber(value: number, digits: number = 4): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(digits);
+}
+
+/**
+ * Plain-text table with the first column left aligned and the rest right
+ * aligned, for printing reports in a terminal
+ */
+export function formatTable(
+  title: string,
+  headers: string[],
+  rows: Array<Array<string | number>>
+): string {
+  const cells = rows.map((row) => row.map((cell) => String(cell)));
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...cells.map((row) => row[column]?.length ?? 0))
+  );
+
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) =>
+        column === 0
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join("  ");
+
+  const separator = widths.map((width) => "-".repeat(width)).join("  ");
+
+  return [title, formatRow(headers), separator, ...cells.map(formatRow)].join(
+    "\n"
+  );
+}
@@ -0,0 +1,419 @@
+import { SymbolType } from "../../types";
+import type { WinResult } from "../../types";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { SlotEngine } from "../engine/SlotEngine";
+import { MaxWin } from "../logic/MaxWin";
+import { Betting } from "../logic/Betting";
+import { MoneyMath } from "../logic/MoneyMath";
+import { SeededRandom } from "../rng/RandomGenerator";
+import { formatNumber, formatPercent, formatTable } from "./ReportFormatting";
+
+export interface SimulationOptions {
+  /** Paid spins, each played out with any free spins it triggers */
+  spins: number;
+  seed: number;
+  /**
+   * Total bet per spin in major units of the game currency; defaults to the
+   * game's default bet per line at the lines played
+   */
+  bet?: number;
+  /** Paylines played, all of them by default */
+  activeLines?: number;
+  /** Called every `progressInterval` spins */
+  onProgress?: (completedSpins: number, totalSpins: number) => void;
+  progressInterval?: number;
+}
+
+export interface ConfidenceInterval {
+  level: number;
+  rtp: [number, number];
+  hitFrequency: [number, number];
+}
+
+export interface WinBucket {
+  label: string;
+  /** Win as a multiple of the bet, lower bound exclusive except for zero */
+  minMultiple: number;
+  /** Upper bound inclusive; null for the open-ended top bucket */
+  maxMultiple: number | null;
+  count: number;
+  frequency: number;
+  rtpContribution: number;
+}
+
+export interface SymbolContribution {
+  symbol: SymbolType;
+  /** Number of winning lines keyed by match count */
+  hitsByCount: Record<number, number>;
+  totalWin: number;
+  rtpContribution: number;
+}
+
+export interface PaylineContribution {
+  payline: number;
+  hits: number;
+  totalWin: number;
+  rtpContribution: number;
+}
+
+export interface SimulationReport {
+  spins: number;
+  seed: number;
+  bet: number;
+  activeLines: number;
+  totalBet: number;
+  totalWin: number;
+  rtp: number;
+  hitFrequency: number;
+  /**
+   * Standard deviation of the per-round return, free spins included, in
+   * multiples of the bet
+   */
+  volatility: number;
+  maxWinMultiple: number;
+  /** Configured max win cap as a multiple of the bet, null when uncapped */
+  maxWinCap: number | null;
+  /** Rounds, free spins included, whose payout reached the max win cap */
+  maxWinCapHits: number;
+  maxWinCapFrequency: number;
+  /** Paid spins that triggered the free spins feature */
+  freeSpinTriggers: number;
+  freeSpinTriggerFrequency: number;
+  /** Free spins played, retriggers included */
+  freeSpinsPlayed: number;
+  /** Share of the RTP won during free spins */
+  freeSpinsRtp: number;
+  confidenceIntervals: ConfidenceInterval[];
+  winDistribution: WinBucket[];
+  symbols: SymbolContribution[];
+  paylines: PaylineContribution[];
+}
+
+const CONFIDENCE_LEVELS: Array<{ level: number; z: number }> = [
+  { level: 0.9, z: 1.6449 },
+  { level: 0.95, z: 1.96 },
+  { level: 0.99, z: 2.5758 },
+];
+
+const BUCKET_BOUNDS: Array<[number, number | null]> = [
+  [0, 0],
+  [0, 1],
+  [1, 2],
+  [2, 5],
+  [5, 10],
+  [10, 20],
+  [20, 50],
+  [50, 100],
+  [100, null],
+];
+
+/**
+ * Monte Carlo estimate of the game's return by playing seeded rounds
+ * through the headless engine.
+ */
+export class MonteCarloSimulator {
+  static run(options: SimulationOptions): SimulationReport {
+    const { spins, seed, activeLines = Betting.maxLines, onProgress } = options;
+    const bet =
+      options.bet ??
+      MoneyMath.toMajor(
+        Betting.getTotalBet(Betting.defaultCoinsPerLine, activeLines)
+      );
+    const betAmount = MoneyMath.fromMajor(bet);
+    const progressInterval = options.progressInterval ?? 100000;
+
+    if (!Number.isInteger(spins) || spins <= 0) {
+      throw new Error(`Spin count must be a positive integer, got ${spins}`);
+    }
+
+    const engine = new SlotEngine(new SeededRandom(seed));
+
+    const bucketCounts = BUCKET_BOUNDS.map(() => 0);
+    const bucketWins = BUCKET_BOUNDS.map(() => 0);
+    const symbolStats = new Map<SymbolType, SymbolContribution>();
+    const paylineStats = new Map<number, PaylineContribution>();
+
+    let totalWin = 0;
+    let winningSpins = 0;
+    let maxWinMultiple = 0;
+    let maxWinCapHits = 0;
+    let freeSpinTriggers = 0;
+    let freeSpinsPlayed = 0;
+    let freeSpinsWin = 0;
+    // Welford's running mean and variance of the per-round return
+    let mean = 0;
+    let m2 = 0;
+
+    const recordWins = (wins: WinResult[]): void => {
+      for (const win of wins) {
+        const symbol = win.symbol;
+        const count = win.symbols.length;
+
+        let symbolEntry = symbolStats.get(symbol);
+        if (!symbolEntry) {
+          symbolEntry = {
+            symbol,
+            hitsByCount: {},
+            totalWin: 0,
+            rtpContribution: 0,
+          };
+          symbolStats.set(symbol, symbolEntry);
+        }
+        symbolEntry.hitsByCount[count] =
+          (symbolEntry.hitsByCount[count] || 0) + 1;
+        symbolEntry.totalWin += MoneyMath.toMajor(win.winAmount);
+
+        if (win.kind !== "line") {
+          continue;
+        }
+
+        let paylineEntry = paylineStats.get(win.payline);
+        if (!paylineEntry) {
+          paylineEntry = {
+            payline: win.payline,
+            hits: 0,
+            totalWin: 0,
+            rtpContribution: 0,
+          };
+          paylineStats.set(win.payline, paylineEntry);
+        }
+        paylineEntry.hits++;
+        paylineEntry.totalWin += MoneyMath.toMajor(win.winAmount);
+      }
+    };
+
+    for (let i = 1; i <= spins; i++) {
+      const { spinResult } = engine.spin(betAmount, activeLines);
+      let roundWin = spinResult.totalWin;
+      let capReached = spinResult.maxWinReached ?? false;
+      recordWins(spinResult.wins);
+
+      // The feature and its retriggers are part of the paid round
+      let freeSpinsRemaining = spinResult.freeSpinsAwarded ?? 0;
+      if (freeSpinsRemaining > 0) {
+        freeSpinTriggers++;
+      }
+      while (freeSpinsRemaining > 0) {
+        freeSpinsRemaining--;
+        freeSpinsPlayed++;
+        const { spinResult: freeSpin } = engine.spinFree(
+          betAmount,
+          activeLines,
+          roundWin
+        );
+        roundWin = MoneyMath.add(roundWin, freeSpin.totalWin);
+        freeSpinsWin += MoneyMath.toMajor(freeSpin.totalWin);
+        recordWins(freeSpin.wins);
+        if (freeSpin.maxWinReached) {
+          capReached = true;
+          break;
+        }
+        freeSpinsRemaining += freeSpin.freeSpinsAwarded ?? 0;
+      }
+
+      if (capReached) {
+        maxWinCapHits++;
+      }
+
+      const spinWin = MoneyMath.toMajor(roundWin);
+      const multiple = roundWin.minor / betAmount.minor;
+
+      totalWin += spinWin;
+      if (spinWin > 0) {
+        winningSpins++;
+      }
+      maxWinMultiple = Math.max(maxWinMultiple, multiple);
+
+      const delta = multiple - mean;
+      mean += delta / i;
+      m2 += delta * (multiple - mean);
+
+      const bucket = this.findBucket(multiple);
+      bucketCounts[bucket]++;
+      bucketWins[bucket] += spinWin;
+
+      if (onProgress && i % progressInterval === 0) {
+        onProgress(i, spins);
+      }
+    }
+
+    const totalBet = spins * bet;
+    const rtp = totalWin / totalBet;
+    const hitFrequency = winningSpins / spins;
+    const variance = spins > 1 ? m2 / (spins - 1) : 0;
+    const volatility = Math.sqrt(variance);
+
+    const confidenceIntervals = CONFIDENCE_LEVELS.map(({ level, z }) => {
+      const rtpMargin = (z * volatility) / Math.sqrt(spins);
+      const hitMargin =
+        z * Math.sqrt((hitFrequency * (1 - hitFrequency)) / spins);
+      return {
+        level,
+        rtp: [rtp - rtpMargin, rtp + rtpMargin] as [number, number],
+        hitFrequency: [
+          Math.max(0, hitFrequency - hitMargin),
+          Math.min(1, hitFrequency + hitMargin),
+        ] as [number, number],
+      };
+    });
+
+    const winDistribution = BUCKET_BOUNDS.map(([min, max], index) => ({
+      label: this.getBucketLabel(min, max),
+      minMultiple: min,
+      maxMultiple: max,
+      count: bucketCounts[index],
+      frequency: bucketCounts[index] / spins,
+      rtpContribution: bucketWins[index] / totalBet,
+    }));
+
+    // Report every configured symbol and payline, including ones that never hit
+    const symbols = GAME_CONFIG.symbols.map((config) => {
+      const entry = symbolStats.get(config.type) ?? {
+        symbol: config.type,
+        hitsByCount: {},
+        totalWin: 0,
+        rtpContribution: 0,
+      };
+      entry.rtpContribution = entry.totalWin / totalBet;
+      return entry;
+    });
+
+    const paylines = Betting.getActivePaylines(activeLines).map((payline) => {
+      const entry = paylineStats.get(payline.id) ?? {
+        payline: payline.id,
+        hits: 0,
+        totalWin: 0,
+        rtpContribution: 0,
+      };
+      entry.rtpContribution = entry.totalWin / totalBet;
+      return entry;
+    });
+
+    return {
+      spins,
+      seed,
+      bet,
+      activeLines,
+      totalBet,
+      totalWin,
+      rtp,
+      hitFrequency,
+      volatility,
+      maxWinMultiple,
+      maxWinCap: MaxWin.multiplier,
+      maxWinCapHits,
+      maxWinCapFrequency: maxWinCapHits / spins,
+      freeSpinTriggers,
+      freeSpinTriggerFrequency: freeSpinTriggers / spins,
+      freeSpinsPlayed,
+      freeSpinsRtp: freeSpinsWin / totalBet,
+      confidenceIntervals,
+      winDistribution,
+      symbols,
+      paylines,
+    };
+  }
+
+  private static findBucket(multiple: number): number {
+    if (multiple === 0) {
+      return 0;
+    }
+
+    for (let i = 1; i < BUCKET_BOUNDS.length; i++) {
+      const max = BUCKET_BOUNDS[i][1];
+      if (max === null || multiple <= max) {
+        return i;
+      }
+    }
+
+    return BUCKET_BOUNDS.length - 1;
+  }
+
+  private static getBucketLabel(min: number, max: number | null): string {
+    if (max === null) {
+      return `> ${min}x`;
+    }
+    if (min === max) {
+      return `${min}x`;
+    }
+    return `${min}x - ${max}x`;
+  }
+}
+
+export function formatSimulationReport(report: SimulationReport): string {
+  const summary = formatTable(
+    "Summary",
+    ["Metric", "Value"],
+    [
+      ["Spins", report.spins],
+      ["Seed", report.seed],
+      ["Bet", report.bet],
+      ["Lines", report.activeLines],
+      ["Total bet", formatNumber(report.totalBet, 2)],
+      ["Total win", formatNumber(report.totalWin, 2)],
+      ["RTP", formatPercent(report.rtp, 3)],
+      ["Hit frequency", formatPercent(report.hitFrequency, 3)],
+      ["Volatility (SD)", formatNumber(report.volatility)],
+      ["Max win", `${formatNumber(report.maxWinMultiple, 2)}x`],
+      ["Max win cap", report.maxWinCap === null ? "-" : `${report.maxWinCap}x`],
+      [
+        "Max win cap hits",
+        `${report.maxWinCapHits} (${formatPercent(report.maxWinCapFrequency, 4)})`,
+      ],
+      [
+        "Free spins triggers",
+        `${report.freeSpinTriggers} (${formatPercent(report.freeSpinTriggerFrequency, 4)})`,
+      ],
+      ["Free spins played", report.freeSpinsPlayed],
+      ["Free spins RTP", formatPercent(report.freeSpinsRtp, 3)],
+    ]
+  );
+
+  const intervals = formatTable(
+    "Confidence intervals",
+    ["Level", "RTP", "Hit frequency"],
+    report.confidenceIntervals.map((interval) => [
+      formatPercent(interval.level, 0),
+      `${formatPercent(interval.rtp[0], 3)} - ${formatPercent(interval.rtp[1], 3)}`,
+      `${formatPercent(interval.hitFrequency[0], 3)} - ${formatPercent(
+        interval.hitFrequency[1],
+        3
+      )}`,
+    ])
+  );
+
+  const distribution = formatTable(
+    "Win distribution (multiples of bet)",
+    ["Bucket", "Spins", "Frequency", "RTP share"],
+    report.winDistribution.map((bucket) => [
+      bucket.label,
+      bucket.count,
+      formatPercent(bucket.frequency, 4),
+      formatPercent(bucket.rtpContribution, 3),
+    ])
+  );
+
+  const symbols = formatTable(
+    "Symbol contribution",
+    ["Symbol", "3 hits", "4 hits", "5 hits", "RTP share"],
+    report.symbols.map((entry) => [
+      entry.symbol,
+      entry.hitsByCount[3] || 0,
+      entry.hitsByCount[4] || 0,
+      entry.hitsByCount[5] || 0,
+      formatPercent(entry.rtpContribution, 3),
+    ])
+  );
+
+  const paylines = formatTable(
+    "Payline contribution",
+    ["Payline", "Hits", "RTP share"],
+    report.paylines.map((entry) => [
+      entry.payline,
+      entry.hits,
+      formatPercent(entry.rtpContribution, 3),
+    ])
+  );
+
+  return [summary, intervals, distribution, symbols, paylines].join("\n\n");
+}
@@ -0,0 +1,15 @@
+export {
+  MonteCarloSimulator,
+  formatSimulationReport,
+  type SimulationOptions,
+  type SimulationReport,
+} from "./Simulator";
+export { formatNumber, formatPercent, formatTable } from "./ReportFormatting";
+export {
+  ParSheetCalculator,
+  formatParSheet,
+  formatParSheetCsv,
+  type ParSheet,
+  type ParSheetEntry,
+  type ReelModelKind,
+} from "./ParSheet";
@@ -0,0 +1,21 @@
+import type { RecoveryStore, SavedRound } from "./RoundRecovery";
+
+/**
+ * Keeps the round in memory only, for play where the balance does not
+ * outlive the page either
+ */
+export class InMemoryRecoveryStore implements RecoveryStore {
+  private round: SavedRound | null = null;
+
+  load(): SavedRound | null {
+    return this.round;
+  }
+
+  save(round: SavedRound): void {
+    this.round = round;
+  }
+
+  clear(): void {
+    this.round = null;
+  }
+}
@@ -0,0 +1,36 @@
+import type { RecoveryStore, SavedRound } from "./RoundRecovery";
+
+/**
+ * Keeps the round in the browser's localStorage, which survives closing
+ * the tab
+ */
+export class LocalStorageRecoveryStore implements RecoveryStore {
+  private readonly key: string;
+
+  constructor(key: string = "slot-round") {
+    this.key = key;
+  }
+
+  load(): SavedRound | null {
+    try {
+      const value = localStorage.getItem(this.key);
+      const round = value === null ? null : (JSON.parse(value) as SavedRound);
+      return round?.version === 1 ? round : null;
+    } catch (error) {
+      console.warn("Ignoring an unreadable saved round:", error);
+      return null;
+    }
+  }
+
+  save(round: SavedRound): void {
+    try {
+      localStorage.setItem(this.key, JSON.stringify(round));
+    } catch (error) {
+      console.error("Failed to save the round in progress:", error);
+    }
+  }
+
+  clear(): void {
+    localStorage.removeItem(this.key);
+  }
+}
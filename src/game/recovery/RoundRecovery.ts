@@ -0,0 +1,25 @@
+import type { Snapshot } from "xstate";
+import type { SpinResult } from "../../types";
+
+/**
+ * A round in progress as it was last saved: the game state machine snapshot
+ * and the spin result drawn last, so a reload can show the same grid and
+ * finish the round.
+ */
+export interface SavedRound {
+  version: 1;
+  snapshot: Snapshot<unknown>;
+  lastSpin: SpinResult | null;
+  /** `lastSpin` was drawn but the reels never finished showing it */
+  spinPending: boolean;
+}
+
+/**
+ * Where the round in progress is kept. Calls are synchronous so the round
+ * is saved even when the page is closed right after.
+ */
+export interface RecoveryStore {
+  load(): SavedRound | null;
+  save(round: SavedRound): void;
+  clear(): void;
+}
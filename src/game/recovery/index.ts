@@ -0,0 +1,3 @@
+export { type RecoveryStore, type SavedRound } from "./RoundRecovery";
+export { InMemoryRecoveryStore } from "./InMemoryRecoveryStore";
+export { LocalStorageRecoveryStore } from "./LocalStorageRecoveryStore";
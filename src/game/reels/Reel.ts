@@ -2,26 +2,43 @@ import * as PIXI from "pixi.js";
 import { Symbol } from "../symbols/Symbol";
 import { SymbolFactory } from "../symbols/SymbolFactory";
 import { generateSymbol } from "../symbols/SymbolConfig";
+import type { RandomGenerator } from "../rng/RandomGenerator";
 import { SymbolType } from "../../types";
 import { GAME_CONFIG } from "../config/GameConfig";
 import { ReelAnimations } from "./ReelAnimations";
 
+// Off-screen symbols kept beside the visible rows: one above, the rest below
+const BUFFER_SYMBOLS = 5;
+
 export class Reel extends PIXI.Container {
   private _symbols: Symbol[] = [];
   private _reelIndex: number;
   private _symbolFactory: SymbolFactory;
-  private _visibleSymbols: number = 3;
+  private _visibleSymbols: number;
+  private _reelHeight: number;
+  // Height of one row slot; shrinks when the reel shows more rows
   private _symbolHeight: number;
   private _initialSymbolTypes: SymbolType[] = [];
   private _initialSymbolPositions: number[] = [];
   private _animations: ReelAnimations;
-
-  constructor(reelIndex: number, symbolFactory: SymbolFactory) {
+  private _rng: RandomGenerator;
+  private _strip: SymbolType[] | null;
+  private _stripPosition: number = 0;
+
+  constructor(
+    reelIndex: number,
+    symbolFactory: SymbolFactory,
+    rng: RandomGenerator = symbolFactory.rng
+  ) {
     super();
 
     this._reelIndex = reelIndex;
     this._symbolFactory = symbolFactory;
+    this._rng = rng;
     this._symbolHeight = GAME_CONFIG.reels.symbolHeight;
+    this._visibleSymbols = GAME_CONFIG.reels.rows;
+    this._reelHeight = this._symbolHeight * this._visibleSymbols;
+    this._strip = GAME_CONFIG.reelStrips?.[reelIndex]?.symbols ?? null;
 
     this.initializeReel();
 
@@ -30,8 +47,10 @@ export class Reel extends PIXI.Container {
       this._symbols,
       this._symbolFactory,
       this._symbolHeight,
+      this._rng,
       (symbol: Symbol) => this.addChild(symbol),
-      (symbol: Symbol) => this.removeChild(symbol)
+      (symbol: Symbol) => this.removeChild(symbol),
+      this._strip ? () => this.stepStrip() : null
     );
   }
 
@@ -47,14 +66,28 @@ export class Reel extends PIXI.Container {
     return this._reelIndex;
   }
 
+  get stripPosition(): number {
+    return this._stripPosition;
+  }
+
+  get rowCount(): number {
+    return this._visibleSymbols;
+  }
+
   private initializeReel(): void {
-    const totalSymbols = this._visibleSymbols + 5;
+    const totalSymbols = this._visibleSymbols + BUFFER_SYMBOLS;
+
+    if (this._strip) {
+      this._stripPosition = this._rng.nextInt(this._strip.length);
+    }
 
     for (let i = 0; i < totalSymbols; i++) {
-      const symbolType = generateSymbol();
-      const symbol = this._symbolFactory.createSymbol(symbolType);
+      const symbolType = this._strip
+        ? this.getStripSymbol(i)
+        : generateSymbol(this._rng);
+      const symbol = this.createSymbol(symbolType);
 
-      const initialY = (i - 2) * this._symbolHeight;
+      const initialY = this.getSlotY(i);
 
       if (i >= 1 && i < 1 + this._visibleSymbols) {
         this._initialSymbolTypes.push(symbolType);
@@ -69,6 +102,133 @@ export class Reel extends PIXI.Container {
     }
   }
 
+  /**
+   * Pooled symbol scaled to the current slot height
+   */
+  private createSymbol(symbolType: SymbolType): Symbol {
+    const symbol = this._symbolFactory.createSymbol(symbolType);
+    symbol.scale.set(this._symbolHeight / GAME_CONFIG.reels.symbolHeight);
+    return symbol;
+  }
+
+  /**
+   * Show a different number of rows in the same reel height. The symbol
+   * list grows or shrinks to keep its buffer and every slot is resized.
+   */
+  setRowCount(rowCount: number): void {
+    if (rowCount === this._visibleSymbols) {
+      return;
+    }
+
+    this._visibleSymbols = rowCount;
+    this._symbolHeight = this._reelHeight / rowCount;
+    this._animations.setSymbolHeight(this._symbolHeight);
+
+    const totalSymbols = rowCount + BUFFER_SYMBOLS;
+
+    while (this._symbols.length > totalSymbols) {
+      const symbol = this._symbols.pop()!;
+      this.removeChild(symbol);
+      this._symbolFactory.returnSymbol(symbol);
+    }
+
+    while (this._symbols.length < totalSymbols) {
+      const symbol = this.createSymbol(
+        this._strip
+          ? this.getStripSymbol(this._symbols.length)
+          : generateSymbol(this._rng)
+      );
+      this._symbols.push(symbol);
+      this.addChild(symbol);
+    }
+
+    const symbolScale = this._symbolHeight / GAME_CONFIG.reels.symbolHeight;
+    this._symbols.forEach((symbol, index) => {
+      symbol.x = 0;
+      symbol.y = this.getSlotY(index);
+      symbol.scale.set(symbolScale);
+    });
+
+    this._animations.updateSymbolsReference(this._symbols);
+  }
+
+  /**
+   * Resting y of a slot in the symbol list. Slot 1 is the top visible row
+   * and the visible rows are centred on the reel's origin.
+   */
+  private getSlotY(index: number): number {
+    return (index - 1 - (this._visibleSymbols - 1) / 2) * this._symbolHeight;
+  }
+
+  /**
+   * Strip symbol for a slot in the symbol list; slot 1 is the top visible row
+   */
+  private getStripSymbol(index: number): SymbolType {
+    const strip = this._strip!;
+    const length = strip.length;
+    return strip[
+      (((this._stripPosition + index - 1) % length) + length) % length
+    ];
+  }
+
+  /**
+   * Scroll the strip down by one symbol while spinning: the bottom symbol
+   * leaves and the previous strip symbol enters above the visible area.
+   */
+  private stepStrip(): void {
+    if (!this._strip) {
+      return;
+    }
+
+    const length = this._strip.length;
+    this._stripPosition = (this._stripPosition - 1 + length) % length;
+
+    const leavingSymbol = this._symbols.pop();
+    if (leavingSymbol) {
+      this.removeChild(leavingSymbol);
+      this._symbolFactory.returnSymbol(leavingSymbol);
+    }
+
+    const enteringSymbol = this.createSymbol(this.getStripSymbol(0));
+    enteringSymbol.x = 0;
+    this._symbols.unshift(enteringSymbol);
+    this.addChild(enteringSymbol);
+
+    this._symbols.forEach((symbol, index) => {
+      symbol.y = this.getSlotY(index);
+    });
+  }
+
+  /**
+   * Rebuild the reel so the top visible row shows the given strip index
+   */
+  setStripPosition(stop: number): void {
+    if (!this._strip) {
+      return;
+    }
+
+    this._stripPosition = stop;
+
+    this._symbols.forEach((currentSymbol, index) => {
+      const symbolType = this.getStripSymbol(index);
+      if (currentSymbol.type === symbolType) {
+        return;
+      }
+
+      this.removeChild(currentSymbol);
+      this._symbolFactory.returnSymbol(currentSymbol);
+
+      const newSymbol = this.createSymbol(symbolType);
+      newSymbol.x = currentSymbol.x;
+      newSymbol.y = currentSymbol.y;
+
+      this.addChild(newSymbol);
+      this._symbols[index] = newSymbol;
+    });
+
+    this._animations.updateSymbolsReference(this._symbols);
+  }
+
   getVisibleSymbols(): Symbol[] {
     const startIndex = 1;
     return this._symbols
@@ -95,13 +255,18 @@ export class Reel extends PIXI.Container {
   }
 
   generateNewSymbols(): void {
+    if (this._strip) {
+      this.setStripPosition(this._rng.nextInt(this._strip.length));
+      return;
+    }
+
     this._symbols.forEach((symbol) => {
-      const newType = generateSymbol();
+      const newType = generateSymbol(this._rng);
 
       this.removeChild(symbol);
       this._symbolFactory.returnSymbol(symbol); // Return to pool instead of destroy
 
-      const newSymbol = this._symbolFactory.createSymbol(newType);
+      const newSymbol = this.createSymbol(newType);
       newSymbol.x = symbol.x;
       newSymbol.y = symbol.y;
 
@@ -134,7 +299,7 @@ export class Reel extends PIXI.Container {
         this.removeChild(currentSymbol);
         this._symbolFactory.returnSymbol(currentSymbol); // Return to pool instead of destroy
 
-        const newSymbol = this._symbolFactory.createSymbol(symbolType);
+        const newSymbol = this.createSymbol(symbolType);
         newSymbol.x = symbolX;
         newSymbol.y = symbolY;
 
@@ -149,7 +314,7 @@ export class Reel extends PIXI.Container {
   resetPosition(): void {
     this._symbols.forEach((symbol, index) => {
       if (symbol && symbol.y !== undefined) {
-        symbol.y = (index - 2) * this._symbolHeight;
+        symbol.y = this.getSlotY(index);
       }
     });
   }
@@ -173,20 +338,83 @@ export class Reel extends PIXI.Container {
     return this._animations.instantSpin();
   }
 
-  async stop(): Promise<void> {
+  /**
+   * Stop the reel and land it on the given column, top row first.
+   * With a strip stop the whole strip around it is shown, so the symbols
+   * above and below the window are the real strip neighbours.
+   * Without a target the reel keeps whatever symbols it stopped on.
+   */
+  async stop(
+    targetSymbols?: SymbolType[],
+    stopPosition?: number
+  ): Promise<void> {
     const result = await this._animations.stop();
 
     this.resetToCleanState();
 
+    if (targetSymbols) {
+      this.setRowCount(targetSymbols.length);
+    }
+
+    if (this._strip && stopPosition !== undefined) {
+      this.setStripPosition(stopPosition);
+    } else if (targetSymbols) {
+      this.setVisibleSymbolTypes(targetSymbols);
+    }
+
     return result;
   }
 
+  /**
+   * Play one cascade step: the symbols in the given visible rows are removed,
+   * the rest drop down and new symbols fall in from the top so the reel
+   * shows `column`.
+   */
+  async tumble(removedRows: number[], column: SymbolType[]): Promise<void> {
+    if (removedRows.length === 0) {
+      return;
+    }
+
+    const visibleSymbols = this.getVisibleSymbols();
+    const removedSymbols = removedRows.map((row) => visibleSymbols[row]);
+
+    await this._animations.removeSymbols(removedSymbols);
+
+    removedSymbols.forEach((symbol) => {
+      this.removeChild(symbol);
+      this._symbolFactory.returnSymbol(symbol);
+    });
+
+    const remainingSymbols = visibleSymbols.filter(
+      (symbol) => !removedSymbols.includes(symbol)
+    );
+    const enteringSymbols = column
+      .slice(0, removedRows.length)
+      .map((symbolType, index) => {
+        const symbol = this.createSymbol(symbolType);
+        symbol.x = 0;
+        // Stack the new symbols directly above the top visible row
+        symbol.y = this.getSlotY(index + 1 - removedRows.length);
+        this.addChild(symbol);
+        return symbol;
+      });
+
+    const landedSymbols = [...enteringSymbols, ...remainingSymbols];
+    this._symbols.splice(1, this._visibleSymbols, ...landedSymbols);
+    this._animations.updateSymbolsReference(this._symbols);
+
+    await this._animations.dropSymbols(
+      landedSymbols,
+      landedSymbols.map((_, row) => this.getSlotY(row + 1))
+    );
+  }
+
   private resetToCleanState(): void {
     this.y = 0;
 
     this._symbols.forEach((symbol, index) => {
       if (symbol && symbol.y !== undefined) {
-        symbol.y = (index - 2) * this._symbolHeight;
+        symbol.y = this.getSlotY(index);
       }
     });
   }
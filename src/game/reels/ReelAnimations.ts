@@ -3,38 +3,52 @@ import * as PIXI from "pixi.js";
 import { Symbol } from "../symbols/Symbol";
 import { SymbolFactory } from "../symbols/SymbolFactory";
 import { generateSymbol } from "../symbols/SymbolConfig";
+import type { RandomGenerator } from "../rng/RandomGenerator";
 
 export class ReelAnimations {
   private _reelContainer: PIXI.Container;
   private _symbols: Symbol[];
   private _symbolFactory: SymbolFactory;
   private _symbolHeight: number;
+  private _rng: RandomGenerator;
   private _isSpinning: boolean = false;
   private _spinSpeed: number = 0;
   private _addChildCallback: (symbol: Symbol) => void;
   private _removeChildCallback: (symbol: Symbol) => void;
   private _symbolChangeActive: boolean = false;
+  private _stepCallback: (() => void) | null;
 
   constructor(
     reelContainer: PIXI.Container,
     symbols: Symbol[],
     symbolFactory: SymbolFactory,
     symbolHeight: number,
+    rng: RandomGenerator,
     addChildCallback: (symbol: Symbol) => void,
-    removeChildCallback: (symbol: Symbol) => void
+    removeChildCallback: (symbol: Symbol) => void,
+    stepCallback: (() => void) | null = null
   ) {
     this._reelContainer = reelContainer;
     this._symbols = symbols;
     this._symbolFactory = symbolFactory;
     this._symbolHeight = symbolHeight;
+    this._rng = rng;
     this._addChildCallback = addChildCallback;
     this._removeChildCallback = removeChildCallback;
+    this._stepCallback = stepCallback;
   }
 
   get isSpinning(): boolean {
     return this._isSpinning;
   }
 
+  /**
+   * Slot height changes when the reel shows a different number of rows
+   */
+  setSymbolHeight(symbolHeight: number): void {
+    this._symbolHeight = symbolHeight;
+  }
+
   async spin(): Promise<void> {
     if (this._isSpinning) {
       return;
@@ -100,8 +114,9 @@ export class ReelAnimations {
       // Move reel down smoothly
       this._reelContainer.y += this._spinSpeed;
 
-      // Change symbols only during the active period and at intervals
-      if (this._symbolChangeActive) {
+      // Change symbols only during the active period and at intervals.
+      // Strip reels show their real symbols instead of random ones.
+      if (this._symbolChangeActive && !this._stepCallback) {
         frameCounter++;
         if (frameCounter >= 4) {
           // Change symbols every 4 frames
@@ -111,7 +126,12 @@ export class ReelAnimations {
       }
 
       if (this._reelContainer.y >= this._symbolHeight) {
-        this._reelContainer.y = 0;
+        if (this._stepCallback) {
+          this._reelContainer.y -= this._symbolHeight;
+          this._stepCallback();
+        } else {
+          this._reelContainer.y = 0;
+        }
       }
 
       requestAnimationFrame(spinLoop);
@@ -121,19 +141,20 @@ export class ReelAnimations {
   }
 
   private shuffleRandomSymbols(): void {
-    const symbolsToChange = Math.floor(Math.random() * 3) + 2;
+    const symbolsToChange = this._rng.nextInt(3) + 2;
 
     for (let i = 0; i < symbolsToChange; i++) {
-      const randomIndex = Math.floor(Math.random() * this._symbols.length);
+      const randomIndex = this._rng.nextInt(this._symbols.length);
       const currentSymbol = this._symbols[randomIndex];
 
       if (currentSymbol && !currentSymbol.destroyed) {
-        const newSymbolType = generateSymbol();
+        const newSymbolType = generateSymbol(this._rng);
         const newSymbol = this._symbolFactory.createSymbol(newSymbolType);
 
-        // Copy position exactly
+        // Copy position and slot scale exactly
         newSymbol.x = currentSymbol.x;
         newSymbol.y = currentSymbol.y;
+        newSymbol.scale.copyFrom(currentSymbol.scale);
 
         // Replace the symbol
         this._removeChildCallback(currentSymbol);
@@ -185,6 +206,49 @@ export class ReelAnimations {
     gsap.killTweensOf(this._reelContainer);
   }
 
+  /**
+   * Shrink and fade out the symbols a cascade removes
+   */
+  async removeSymbols(symbols: Symbol[]): Promise<void> {
+    await Promise.all(
+      symbols.map(
+        (symbol) =>
+          new Promise<void>((resolve) => {
+            gsap.to(symbol, {
+              alpha: 0,
+              duration: 0.3,
+              ease: "power2.in",
+              onComplete: () => resolve(),
+            });
+            gsap.to(symbol.scale, { x: 0.2, y: 0.2, duration: 0.3 });
+          })
+      )
+    );
+  }
+
+  /**
+   * Drop symbols to their new rows after a cascade, settling with a bounce
+   */
+  async dropSymbols(symbols: Symbol[], targetYs: number[]): Promise<void> {
+    await Promise.all(
+      symbols.map((symbol, index) => {
+        const targetY = targetYs[index];
+        if (symbol.y === targetY) {
+          return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve) => {
+          gsap.to(symbol, {
+            y: targetY,
+            duration: 0.45,
+            ease: "bounce.out",
+            onComplete: () => resolve(),
+          });
+        });
+      })
+    );
+  }
+
   updateSymbolsReference(symbols: Symbol[]): void {
     this._symbols = symbols;
   }
@@ -9,11 +9,12 @@ import {
   enableSymbolLogging,
 } from "../symbols/SymbolConfig";
 import { GameStateManager } from "../state/GameStateManager";
-import { WinEvaluator } from "../logic/WinEvaluatorV5";
 import { PaylineRendererV5 } from "../ui/PaylineRendererV5";
 import { SlotMachineRenderer } from "./SlotMachineRenderer";
 import { SlotMachineAnimations } from "./SlotMachineAnimations";
 import { SoundManager } from "../audio/SoundManager";
+import { SlotEngine } from "../engine/SlotEngine";
+import { Betting } from "../logic/Betting";
 
 export class SlotMachine extends PIXI.Container {
   private _reels: Reel[] = [];
@@ -27,11 +28,22 @@ export class SlotMachine extends PIXI.Container {
   private _animations: SlotMachineAnimations;
   private _instantPlayMode: boolean = false;
   private _spinningSound: any = null;
-
-  constructor(symbolFactory: SymbolFactory, stateManager?: GameStateManager) {
+  private _engine: SlotEngine;
+
+  /**
+   * The engine decides spin outcomes and the slot machine only presents them.
+   * Reel filler symbols use the symbol factory's generator so animation
+   * frames never shift the outcome.
+   */
+  constructor(
+    symbolFactory: SymbolFactory,
+    stateManager?: GameStateManager,
+    engine: SlotEngine = new SlotEngine()
+  ) {
     super();
 
     this._symbolFactory = symbolFactory;
+    this._engine = engine;
     this._stateManager = stateManager || null;
     this._reelCount = GAME_CONFIG.reels.count;
     this._rowCount = GAME_CONFIG.reels.rows;
@@ -99,9 +111,11 @@ export class SlotMachine extends PIXI.Container {
   private createSlotMachineFrame(): void {
     const frame = this._renderer.createSlotMachineFrame();
     const separators = this._renderer.createReelSeparators();
+    const rowSeparators = this._renderer.createRowSeparators();
 
     this.addChildAt(frame, 0);
     this.addChildAt(separators, 1);
+    this.addChildAt(rowSeparators, 2);
   }
 
   private initializeReels(): void {
@@ -133,17 +147,27 @@ export class SlotMachine extends PIXI.Container {
     this.addChild(mask);
   }
 
-  async spin(): Promise<SpinResult> {
+  /**
+   * Spin the reels; free spins are resolved by the engine's free spins rules.
+   * A result drawn earlier, e.g. before a reload, is shown instead of a new one.
+   */
+  async spin(
+    freeSpin: boolean = false,
+    drawnResult?: SpinResult
+  ): Promise<SpinResult> {
     if (this._isSpinning) {
       throw new Error("Reels are already spinning");
     }
 
     if (this._instantPlayMode) {
-      return this.instantSpin();
+      return this.instantSpin(freeSpin, drawnResult);
     }
 
     this._isSpinning = true;
 
+    // The outcome is decided before the reels move; the animation only presents it
+    const spinResult = drawnResult ?? this.resolveSpinResult(freeSpin);
+
     // Disable symbol logging during spin
     disableSymbolLogging();
 
@@ -156,17 +180,12 @@ export class SlotMachine extends PIXI.Container {
       const spinPromises = this._reels.map((reel) => reel.spin());
       await Promise.all(spinPromises);
 
-      await this.stopReelsNaturally();
-
-      const actualVisibleSymbols = this.getCurrentSymbolGrid();
+      await this.stopReelsNaturally(spinResult);
+      this.updateRowLayout(spinResult);
 
-      const currentBet =
-        this._stateManager?.currentBet ?? GAME_CONFIG.betting.defaultBet;
-
-      const spinResult = WinEvaluator.createSpinResult(
-        actualVisibleSymbols,
-        currentBet
-      );
+      if (spinResult.cascades) {
+        await this._animations.playCascades(spinResult);
+      }
 
       // Re-enable symbol logging after animations complete
       enableSymbolLogging();
@@ -186,9 +205,14 @@ export class SlotMachine extends PIXI.Container {
     }
   }
 
-  private async instantSpin(): Promise<SpinResult> {
+  private async instantSpin(
+    freeSpin: boolean,
+    drawnResult?: SpinResult
+  ): Promise<SpinResult> {
     this._isSpinning = true;
 
+    const spinResult = drawnResult ?? this.resolveSpinResult(freeSpin);
+
     // Disable symbol logging during spin
     disableSymbolLogging();
 
@@ -204,18 +228,15 @@ export class SlotMachine extends PIXI.Container {
       // Wait for a short duration
       await new Promise((resolve) => setTimeout(resolve, 400));
 
-      const stopPromises = this._reels.map((reel) => reel.stop());
+      const stopPromises = this._reels.map((reel, index) =>
+        reel.stop(spinResult.reelResults[index], spinResult.stops?.[index])
+      );
       await Promise.all(stopPromises);
+      this.updateRowLayout(spinResult);
 
-      const actualVisibleSymbols = this.getCurrentSymbolGrid();
-
-      const currentBet =
-        this._stateManager?.currentBet ?? GAME_CONFIG.betting.defaultBet;
-
-      const spinResult = WinEvaluator.createSpinResult(
-        actualVisibleSymbols,
-        currentBet
-      );
+      if (spinResult.cascades) {
+        await this._animations.playCascades(spinResult);
+      }
 
       // Re-enable symbol logging after animations complete
       enableSymbolLogging();
@@ -232,14 +253,63 @@ export class SlotMachine extends PIXI.Container {
     }
   }
 
-  private async stopReelsNaturally(): Promise<void> {
+  // The result is committed to the round before it is shown
+  private resolveSpinResult(freeSpin: boolean): SpinResult {
+    const currentBet = this._stateManager?.currentBet ?? Betting.defaultBet;
+    const activeLines = this._stateManager?.activeLines ?? Betting.maxLines;
+
+    const spinResult = freeSpin
+      ? this._engine.spinFree(
+          currentBet,
+          activeLines,
+          this._stateManager?.roundWin
+        ).spinResult
+      : this._engine.spin(currentBet, activeLines).spinResult;
+    this._stateManager?.commitSpin(spinResult);
+
+    return spinResult;
+  }
+
+  /**
+   * Show the final grid of a spin at once, without spinning
+   */
+  showResult(spinResult: SpinResult): void {
+    const grid =
+      spinResult.cascades?.at(-1)?.reelResults ?? spinResult.reelResults;
+
+    this._reels.forEach((reel, index) => {
+      reel.setRowCount(grid[index].length);
+      // Strip stops are where the reels landed, before any cascade
+      if (!spinResult.cascades && spinResult.stops) {
+        reel.setStripPosition(spinResult.stops[index]);
+      } else {
+        reel.setVisibleSymbolTypes(grid[index]);
+      }
+    });
+    this.updateRowLayout(spinResult);
+  }
+
+  /**
+   * Redraw row separators and win frames for the rows each reel landed with
+   */
+  private updateRowLayout(spinResult: SpinResult): void {
+    const rowCounts = spinResult.reelResults.map((column) => column.length);
+
+    this._renderer.createRowSeparators(rowCounts);
+    this._paylineRenderer.setReelRows(rowCounts);
+  }
+
+  private async stopReelsNaturally(spinResult: SpinResult): Promise<void> {
     const stopPromises = this._reels.map((reel, index) => {
       return new Promise<void>((resolve) => {
         const baseDelay = GAME_CONFIG.animations.reelStopDelay;
         const delay = baseDelay + GAME_CONFIG.animations.reelStopDelay * index;
 
         setTimeout(async () => {
-          await reel.stop();
+          await reel.stop(
+            spinResult.reelResults[index],
+            spinResult.stops?.[index]
+          );
           resolve();
         }, delay);
       });
@@ -259,7 +329,7 @@ export class SlotMachine extends PIXI.Container {
       reel < 0 ||
       reel >= this._reelCount ||
       row < 0 ||
-      row >= this._rowCount
+      row >= this._reels[reel].rowCount
     ) {
       return null;
     }
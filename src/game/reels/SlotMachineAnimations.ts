@@ -1,9 +1,12 @@
 import type { SpinResult, WinResult } from "../../types";
 import { WinEvaluator } from "../logic/WinEvaluatorV5";
+import { Cascades } from "../logic/Cascades";
 import { PaylineRendererV5 } from "../ui/PaylineRendererV5";
 import { Reel } from "./Reel";
 import { SoundManager } from "../audio/SoundManager";
 
+const CASCADE_HIGHLIGHT_DURATION = 700;
+
 export class SlotMachineAnimations {
   private _reels: Reel[];
   private _paylineRenderer: PaylineRendererV5;
@@ -59,11 +62,47 @@ export class SlotMachineAnimations {
     });
   }
 
+  /**
+   * Replay the tumble sequence of a cascading spin on the landed reels,
+   * leaving them on the final grid
+   */
+  async playCascades(spinResult: SpinResult): Promise<void> {
+    const cascades = spinResult.cascades ?? [];
+    const soundManager = SoundManager.getInstance();
+
+    for (let index = 0; index + 1 < cascades.length; index++) {
+      const step = cascades[index];
+      const nextGrid = cascades[index + 1].reelResults;
+      const removedRows = Cascades.getRemovedRows(step);
+
+      if (soundManager.isReady()) {
+        soundManager.playWinSound();
+      }
+
+      this.highlightWinningSymbols(step.wins);
+      await new Promise((resolve) =>
+        setTimeout(resolve, CASCADE_HIGHLIGHT_DURATION)
+      );
+
+      await Promise.all(
+        this._reels.map((reel, reelIndex) =>
+          reel.tumble(removedRows[reelIndex], nextGrid[reelIndex])
+        )
+      );
+      this.clearHighlights();
+    }
+  }
+
   async celebrateWin(spinResult: SpinResult): Promise<void> {
     if (!WinEvaluator.hasWins(spinResult)) {
       return;
     }
 
+    // Cascade wins were shown on their own grids while tumbling
+    if (spinResult.cascades) {
+      return;
+    }
+
     // Play win sound effect
     const soundManager = SoundManager.getInstance();
     if (soundManager.isReady()) {
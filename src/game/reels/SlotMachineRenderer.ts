@@ -6,12 +6,14 @@ export class SlotMachineRenderer {
   private _rowCount: number;
   private _frame: PIXI.Graphics;
   private _reelSeparators: PIXI.Graphics;
+  private _rowSeparators: PIXI.Graphics;
 
   constructor(reelCount: number, rowCount: number) {
     this._reelCount = reelCount;
     this._rowCount = rowCount;
     this._frame = new PIXI.Graphics();
     this._reelSeparators = new PIXI.Graphics();
+    this._rowSeparators = new PIXI.Graphics();
   }
 
   createSlotMachineFrame(): PIXI.Graphics {
@@ -92,6 +94,36 @@ export class SlotMachineRenderer {
     return this._reelSeparators;
   }
 
+  /**
+   * Lines between the rows of each reel; redrawn whenever the reels land
+   * with different row counts
+   */
+  createRowSeparators(rowCounts?: number[]): PIXI.Graphics {
+    const symbolWidth = GAME_CONFIG.reels.symbolWidth;
+    const totalHeight = GAME_CONFIG.reels.symbolHeight * this._rowCount;
+    const separatorHeight = 1;
+    const separatorColor = 0x7f8c8d;
+
+    this._rowSeparators.clear();
+
+    this.calculateReelPositions().forEach((position, reel) => {
+      const rows = rowCounts?.[reel] ?? this._rowCount;
+      const rowHeight = totalHeight / rows;
+
+      for (let row = 1; row < rows; row++) {
+        this._rowSeparators.rect(
+          position.x - symbolWidth / 2,
+          -totalHeight / 2 + row * rowHeight - separatorHeight / 2,
+          symbolWidth,
+          separatorHeight
+        );
+        this._rowSeparators.fill({ color: separatorColor, alpha: 0.3 });
+      }
+    });
+
+    return this._rowSeparators;
+  }
+
   calculateReelPositions(): { x: number; y: number }[] {
     const symbolWidth = GAME_CONFIG.reels.symbolWidth;
     const reelSpacing = LAYOUT.REEL_SPACING;
@@ -138,5 +170,6 @@ export class SlotMachineRenderer {
   destroy(): void {
     this._frame.destroy();
     this._reelSeparators.destroy();
+    this._rowSeparators.destroy();
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * Source of randomness for everything that decides or displays symbols.
+ * Seeded generators replay the exact same sequence for the same seed.
+ */
+export interface RandomGenerator {
+  /** Seed the sequence was created from, or null if it cannot be replayed */
+  readonly seed: number | null;
+  nextUint32(): number;
+  /** Uniform float in [0, 1) */
+  next(): number;
+  /** Uniform integer in [0, maxExclusive) */
+  nextInt(maxExclusive: number): number;
+}
+
+const UINT32_RANGE = 0x100000000;
+
+function rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
+
+/**
+ * Deterministic xoshiro128** generator, state expanded from a 32-bit seed
+ * with splitmix32.
+ */
+export class SeededRandom implements RandomGenerator {
+  readonly seed: number;
+  private state: Uint32Array = new Uint32Array(4);
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+
+    let mix = this.seed;
+    for (let i = 0; i < 4; i++) {
+      mix = (mix + 0x9e3779b9) >>> 0;
+      let z = mix;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      this.state[i] = z ^ (z >>> 16);
+    }
+  }
+
+  nextUint32(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result;
+  }
+
+  next(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+}
+
+/**
+ * Cryptographically strong generator backed by crypto.getRandomValues.
+ * Values are drawn in batches to avoid a call per symbol.
+ */
+export class CryptoRandom implements RandomGenerator {
+  readonly seed = null;
+  private buffer: Uint32Array = new Uint32Array(256);
+  private bufferIndex: number = this.buffer.length;
+
+  nextUint32(): number {
+    if (this.bufferIndex >= this.buffer.length) {
+      globalThis.crypto.getRandomValues(this.buffer);
+      this.bufferIndex = 0;
+    }
+    return this.buffer[this.bufferIndex++];
+  }
+
+  next(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+}
+
+export function createRandomGenerator(seed?: number): RandomGenerator {
+  return seed === undefined ? new CryptoRandom() : new SeededRandom(seed);
+}
+
+export const defaultRandomGenerator: RandomGenerator = new CryptoRandom();
@@ -0,0 +1,7 @@
+export {
+  type RandomGenerator,
+  SeededRandom,
+  CryptoRandom,
+  createRandomGenerator,
+  defaultRandomGenerator,
+} from "./RandomGenerator";
@@ -1,15 +1,53 @@
-import { createMachine, assign } from "xstate";
-import type { SpinResult } from "../../types";
+import { createMachine, assign, fromPromise } from "xstate";
+import type { Money, SpinResult } from "../../types";
+import { Betting } from "../logic/Betting";
+import { MoneyMath } from "../logic/MoneyMath";
+import {
+  InMemoryWallet,
+  InsufficientFundsError,
+  WalletTimeoutError,
+  type Wallet,
+} from "../wallet";
+import { InMemoryJournal } from "../journal/InMemoryJournal";
+import type { RoundJournal } from "../journal/RoundJournal";
 
-// Game state machine context
+/** Why the last wallet call of the round failed */
+export type WalletErrorKind = "insufficientFunds" | "timeout" | "unavailable";
+
+// Game state machine context; amounts are in the game currency
 export interface GameContext {
-  balance: number;
-  currentBet: number;
-  lastWin: number;
-  totalWin: number;
+  balance: Money;
+  /** Total bet: coin value × coins per line × active lines */
+  currentBet: Money;
+  coinsPerLine: number;
+  /** Paylines played, counted from the first payline */
+  activeLines: number;
+  lastWin: Money;
+  totalWin: Money;
   reelResults: SpinResult | null;
   isSpinning: boolean;
   canSpin: boolean;
+  /** Free spins left in the current feature */
+  freeSpinsRemaining: number;
+  /** Free spins awarded in the current feature, retriggers included */
+  freeSpinsAwarded: number;
+  /** Running total of the current free spins feature, paid out at the end */
+  bonusWin: Money;
+  /**
+   * Won so far in the current round, free spins included; counts towards
+   * the max win cap
+   */
+  roundWin: Money;
+  /** Wallet round of the current spin, with its free spins */
+  roundId: string | null;
+  /**
+   * Wallet balance the round's bet was debited from; `balance` holds what
+   * the wallet returned for the debit
+   */
+  balanceBeforeBet: Money | null;
+  walletError: WalletErrorKind | null;
+  /** Failed attempts of the pending wallet call */
+  walletAttempts: number;
 }
 
 // Game state machine events
@@ -17,38 +55,161 @@ export type GameEvent =
   | { type: "SPIN" }
   | { type: "INCREASE_BET" }
   | { type: "DECREASE_BET" }
+  /** `amount` is a total bet in major units, e.g. typed by the player */
   | { type: "SET_BET"; amount: number }
+  | { type: "INCREASE_LINES" }
+  | { type: "DECREASE_LINES" }
+  | { type: "SET_LINES"; lines: number }
   | { type: "SPIN_COMPLETE"; result: SpinResult }
   | { type: "WIN_CELEBRATION_COMPLETE" }
-  | { type: "RESET_GAME" };
-
-// Initial context
-const initialContext: GameContext = {
-  balance: 1000,
-  currentBet: 10,
-  lastWin: 0,
-  totalWin: 0,
+  | { type: "FREE_SPINS_INTRO_COMPLETE" }
+  | { type: "FREE_SPINS_OUTRO_COMPLETE" }
+  | { type: "RESET_GAME" }
+  /** Balance read from the wallet outside of a round */
+  | { type: "BALANCE_UPDATED"; balance: Money }
+  /** Try again to pay out a round whose credit failed */
+  | { type: "RETRY_WALLET" }
+  /**
+   * Restart the timer of a state restored from a saved snapshot, which
+   * does not keep pending delays
+   */
+  | { type: "RESUME" };
+
+// Pauses of the free spins feature, in milliseconds
+export const FREE_SPINS_TIMINGS = {
+  INTRO: 2500,
+  BETWEEN_SPINS: 600,
+  OUTRO: 3000,
+} as const;
+
+// Wallet call handling, delays in milliseconds
+export const WALLET_TIMINGS = {
+  RETRY_DELAY: 1000,
+  ERROR_DISPLAY: 2000,
+  /** Retries of a failed debit or credit before giving up */
+  MAX_RETRIES: 2,
+} as const;
+
+interface WalletCallInput {
+  roundId: string;
+  amount: Money;
+}
+
+/**
+ * Actors making the wallet calls of a round; payouts are written to the
+ * journal
+ */
+export const createWalletActors = (
+  wallet: Wallet,
+  journal: RoundJournal = new InMemoryJournal()
+) => ({
+  deductBet: fromPromise<Money, WalletCallInput>(({ input }) =>
+    wallet.debit(input.roundId, input.amount)
+  ),
+  addWinnings: fromPromise<Money, WalletCallInput>(async ({ input }) => {
+    const balance = await wallet.credit(input.roundId, input.amount);
+    // The payout stands even if it could not be journaled
+    await journal
+      .append({
+        kind: "credit",
+        roundId: input.roundId,
+        timestamp: new Date().toISOString(),
+        amount: input.amount,
+        balanceBefore: MoneyMath.subtract(balance, input.amount),
+        balanceAfter: balance,
+      })
+      .catch((error) => console.error("Failed to journal payout:", error));
+    return balance;
+  }),
+  rollbackBet: fromPromise<Money, { roundId: string }>(({ input }) =>
+    wallet.rollback(input.roundId)
+  ),
+});
+
+type WalletActors = ReturnType<typeof createWalletActors>;
+
+const createRoundId = (): string =>
+  Array.from(globalThis.crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+const getWalletErrorKind = (error: unknown): WalletErrorKind => {
+  if (error instanceof InsufficientFundsError) {
+    return "insufficientFunds";
+  }
+  return error instanceof WalletTimeoutError ? "timeout" : "unavailable";
+};
+
+// Initial context; the bet follows the game config, which a game definition
+// may replace after this module loads
+const createInitialContext = (): GameContext => ({
+  balance: MoneyMath.fromMajor(1000),
+  currentBet: Betting.defaultBet,
+  coinsPerLine: Betting.defaultCoinsPerLine,
+  activeLines: Betting.defaultLines,
+  lastWin: MoneyMath.zero(),
+  totalWin: MoneyMath.zero(),
   reelResults: null,
   isSpinning: false,
   canSpin: true,
+  freeSpinsRemaining: 0,
+  freeSpinsAwarded: 0,
+  bonusWin: MoneyMath.zero(),
+  roundWin: MoneyMath.zero(),
+  roundId: null,
+  balanceBeforeBet: null,
+  walletError: null,
+  walletAttempts: 0,
+});
+
+const canAfford = (context: GameContext, bet: Money): boolean =>
+  MoneyMath.compare(context.balance, bet) >= 0;
+
+// Bet fields for a coins per line and line count
+const withBet = (
+  context: GameContext,
+  coinsPerLine: number,
+  activeLines: number
+): GameContext => {
+  const currentBet = Betting.getTotalBet(coinsPerLine, activeLines);
+  return {
+    ...context,
+    coinsPerLine,
+    activeLines,
+    currentBet,
+    canSpin: canAfford(context, currentBet),
+  };
 };
 
+// Changing the line count keeps the bet per line when it is still a level
+const withLines = (context: GameContext, activeLines: number): GameContext =>
+  withBet(
+    context,
+    Betting.snapCoinsPerLine(context.coinsPerLine, activeLines)!,
+    activeLines
+  );
+
 export const gameStateMachine = createMachine(
   {
     id: "slotGame",
     initial: "idle",
-    context: initialContext,
+    context: createInitialContext,
     types: {} as {
       context: GameContext;
       events: GameEvent;
+      actors:
+        | { src: "deductBet"; logic: WalletActors["deductBet"] }
+        | { src: "addWinnings"; logic: WalletActors["addWinnings"] }
+        | { src: "rollbackBet"; logic: WalletActors["rollbackBet"] };
     },
     states: {
       idle: {
         entry: "resetSpinFlags",
         on: {
           SPIN: {
-            target: "spinning",
+            target: "debiting",
             guard: "hasEnoughBalance",
+            actions: "startRound",
           },
           INCREASE_BET: {
             actions: "increaseBet",
@@ -60,14 +221,88 @@ export const gameStateMachine = createMachine(
           },
           SET_BET: {
             actions: "setBet",
+            guard: "isValidBetAmount",
+          },
+          INCREASE_LINES: {
+            actions: "increaseLines",
+            guard: "canIncreaseLines",
+          },
+          DECREASE_LINES: {
+            actions: "decreaseLines",
+            guard: "canDecreaseLines",
+          },
+          SET_LINES: {
+            actions: "setLines",
+            guard: "isValidLineCount",
           },
           RESET_GAME: {
             actions: "resetGame",
           },
+          BALANCE_UPDATED: {
+            actions: ["setBalance", "resetSpinFlags"],
+          },
+        },
+      },
+      debiting: {
+        invoke: {
+          src: "deductBet",
+          input: ({ context }) => ({
+            roundId: context.roundId!,
+            amount: context.currentBet,
+          }),
+          onDone: {
+            target: "spinning",
+            actions: "applyDebit",
+          },
+          onError: [
+            {
+              target: "insufficientFunds",
+              guard: "isInsufficientFunds",
+              actions: "recordWalletError",
+            },
+            {
+              target: "debitRetry",
+              guard: "canRetryWallet",
+              actions: "recordWalletError",
+            },
+            {
+              target: "debitFailed",
+              actions: "recordWalletError",
+            },
+          ],
+        },
+      },
+      debitRetry: {
+        after: {
+          [WALLET_TIMINGS.RETRY_DELAY]: "debiting",
+        },
+        on: {
+          RESUME: { target: "debitRetry", reenter: true },
+        },
+      },
+      // A timed out debit may have gone through, so the round is rolled back
+      debitFailed: {
+        invoke: {
+          src: "rollbackBet",
+          input: ({ context }) => ({ roundId: context.roundId! }),
+          onDone: {
+            target: "idle",
+            actions: "setBalance",
+          },
+          onError: {
+            target: "idle",
+          },
+        },
+      },
+      insufficientFunds: {
+        after: {
+          [WALLET_TIMINGS.ERROR_DISPLAY]: "idle",
+        },
+        on: {
+          RESUME: { target: "insufficientFunds", reenter: true },
         },
       },
       spinning: {
-        entry: "deductBet",
         on: {
           SPIN_COMPLETE: {
             target: "evaluating",
@@ -81,6 +316,10 @@ export const gameStateMachine = createMachine(
             target: "celebrating",
             guard: "hasWins",
           },
+          {
+            target: "freeSpins",
+            guard: "triggersFreeSpins",
+          },
           {
             target: "idle",
             actions: "resetSpinState",
@@ -88,17 +327,160 @@ export const gameStateMachine = createMachine(
         ],
       },
       celebrating: {
-        entry: "addWinnings",
+        entry: "recordWin",
         after: {
-          2000: {
+          2000: [
+            {
+              target: "freeSpins",
+              guard: "triggersFreeSpins",
+            },
+            {
+              target: "crediting",
+            },
+          ],
+        },
+        on: {
+          WIN_CELEBRATION_COMPLETE: [
+            {
+              target: "freeSpins",
+              guard: "triggersFreeSpins",
+            },
+            {
+              target: "crediting",
+            },
+          ],
+        },
+      },
+      // The round win is paid out in one credit, free spins included
+      crediting: {
+        entry: "clearWalletError",
+        invoke: {
+          src: "addWinnings",
+          input: ({ context }) => ({
+            roundId: context.roundId!,
+            amount: context.roundWin,
+          }),
+          onDone: {
             target: "idle",
-            actions: "resetSpinState",
+            actions: ["applyCredit", "resetSpinState"],
           },
+          onError: [
+            {
+              target: "creditRetry",
+              guard: "canRetryWallet",
+              actions: "recordWalletError",
+            },
+            {
+              target: "creditFailed",
+              actions: "recordWalletError",
+            },
+          ],
+        },
+      },
+      creditRetry: {
+        after: {
+          [WALLET_TIMINGS.RETRY_DELAY]: "crediting",
         },
         on: {
-          WIN_CELEBRATION_COMPLETE: {
-            target: "idle",
-            actions: "resetSpinState",
+          RESUME: { target: "creditRetry", reenter: true },
+        },
+      },
+      // The win stays owed until the player retries
+      creditFailed: {
+        on: {
+          RETRY_WALLET: {
+            target: "crediting",
+            actions: "resetWalletAttempts",
+          },
+        },
+      },
+      freeSpins: {
+        initial: "intro",
+        entry: "startFreeSpins",
+        exit: "endFreeSpins",
+        states: {
+          intro: {
+            after: {
+              [FREE_SPINS_TIMINGS.INTRO]: "spinning",
+            },
+            on: {
+              FREE_SPINS_INTRO_COMPLETE: "spinning",
+              RESUME: { target: "intro", reenter: true },
+            },
+          },
+          spinning: {
+            entry: "startFreeSpin",
+            on: {
+              SPIN_COMPLETE: {
+                target: "evaluating",
+                actions: ["updateSpinResult", "awardRetrigger"],
+              },
+            },
+          },
+          evaluating: {
+            always: [
+              {
+                target: "celebrating",
+                guard: "hasWins",
+              },
+              {
+                target: "next",
+              },
+            ],
+          },
+          celebrating: {
+            entry: "addBonusWin",
+            after: {
+              2000: "next",
+            },
+            on: {
+              WIN_CELEBRATION_COMPLETE: "next",
+            },
+          },
+          next: {
+            after: {
+              [FREE_SPINS_TIMINGS.BETWEEN_SPINS]: [
+                {
+                  target: "outro",
+                  guard: "maxWinReached",
+                },
+                {
+                  target: "spinning",
+                  guard: "hasFreeSpinsRemaining",
+                },
+                {
+                  target: "outro",
+                },
+              ],
+            },
+            on: {
+              RESUME: { target: "next", reenter: true },
+            },
+          },
+          outro: {
+            after: {
+              [FREE_SPINS_TIMINGS.OUTRO]: [
+                {
+                  target: "#slotGame.crediting",
+                  guard: "hasRoundWin",
+                },
+                {
+                  target: "#slotGame.idle",
+                },
+              ],
+            },
+            on: {
+              FREE_SPINS_OUTRO_COMPLETE: [
+                {
+                  target: "#slotGame.crediting",
+                  guard: "hasRoundWin",
+                },
+                {
+                  target: "#slotGame.idle",
+                },
+              ],
+              RESUME: { target: "outro", reenter: true },
+            },
           },
         },
       },
@@ -106,35 +488,131 @@ export const gameStateMachine = createMachine(
   },
   {
     guards: {
-      hasEnoughBalance: ({ context }) => context.balance >= context.currentBet,
+      hasEnoughBalance: ({ context }) => canAfford(context, context.currentBet),
       hasWins: ({ context }) =>
-        context.reelResults !== null && context.reelResults.totalWin > 0,
-      canIncreaseBet: ({ context }) =>
-        context.balance >= context.currentBet + 5,
-      canDecreaseBet: ({ context }) => context.currentBet > 1,
+        context.reelResults !== null &&
+        MoneyMath.isPositive(context.reelResults.totalWin),
+      triggersFreeSpins: ({ context }) =>
+        (context.reelResults?.freeSpinsAwarded ?? 0) > 0,
+      hasRoundWin: ({ context }) => MoneyMath.isPositive(context.roundWin),
+      isInsufficientFunds: ({ event }) =>
+        "error" in event && event.error instanceof InsufficientFundsError,
+      canRetryWallet: ({ context }) =>
+        context.walletAttempts < WALLET_TIMINGS.MAX_RETRIES,
+      hasFreeSpinsRemaining: ({ context }) => context.freeSpinsRemaining > 0,
+      maxWinReached: ({ context }) =>
+        context.reelResults?.maxWinReached ?? false,
+      // Bets move along the ladder within the min and max bet
+      canIncreaseBet: ({ context }) => {
+        const next = Betting.getNextLevel(
+          context.coinsPerLine,
+          context.activeLines,
+          1
+        );
+        return (
+          next !== null &&
+          canAfford(context, Betting.getTotalBet(next, context.activeLines))
+        );
+      },
+      canDecreaseBet: ({ context }) =>
+        Betting.getNextLevel(context.coinsPerLine, context.activeLines, -1) !==
+        null,
+      isValidBetAmount: ({ context, event }) =>
+        event.type === "SET_BET" &&
+        Number.isFinite(event.amount) &&
+        event.amount > 0 &&
+        Betting.snapToLevel(
+          MoneyMath.fromMajor(event.amount),
+          context.activeLines
+        ) !== null,
+      canIncreaseLines: ({ context }) => {
+        const lines = context.activeLines + 1;
+        const level = Betting.snapCoinsPerLine(context.coinsPerLine, lines);
+        return (
+          lines <= Betting.maxLines &&
+          level !== null &&
+          canAfford(context, Betting.getTotalBet(level, lines))
+        );
+      },
+      canDecreaseLines: ({ context }) =>
+        context.activeLines > 1 &&
+        Betting.snapCoinsPerLine(
+          context.coinsPerLine,
+          context.activeLines - 1
+        ) !== null,
+      isValidLineCount: ({ context, event }) =>
+        event.type === "SET_LINES" &&
+        Betting.isValidLineCount(event.lines) &&
+        Betting.snapCoinsPerLine(context.coinsPerLine, event.lines) !== null,
     },
     actions: {
       resetSpinFlags: assign(({ context }) => ({
         ...context,
-        canSpin: context.balance >= context.currentBet,
+        canSpin: canAfford(context, context.currentBet),
         isSpinning: false,
       })),
-      deductBet: assign(({ context }) => ({
+      startRound: assign(({ context }) => ({
         ...context,
-        balance: context.balance - context.currentBet,
+        roundId: createRoundId(),
         canSpin: false,
+        lastWin: MoneyMath.zero(),
+        roundWin: MoneyMath.zero(),
+        walletError: null,
+        walletAttempts: 0,
+      })),
+      // The balance comes from the wallet, after the bet
+      applyDebit: assign(({ context, event }) => ({
+        ...context,
+        balanceBeforeBet: context.balance,
+        balance: "output" in event ? (event.output as Money) : context.balance,
         isSpinning: true,
-        lastWin: 0,
+        walletAttempts: 0,
       })),
-      addWinnings: assign(({ context }) => {
-        const winAmount = context.reelResults?.totalWin || 0;
+      recordWin: assign(({ context }) => {
+        const winAmount = context.reelResults?.totalWin ?? MoneyMath.zero();
         return {
           ...context,
-          balance: context.balance + winAmount,
           lastWin: winAmount,
-          totalWin: context.totalWin + winAmount,
+          roundWin: MoneyMath.add(context.roundWin, winAmount),
+        };
+      }),
+      applyCredit: assign(({ context, event }) => ({
+        ...context,
+        balance: "output" in event ? (event.output as Money) : context.balance,
+        totalWin: MoneyMath.add(context.totalWin, context.roundWin),
+        walletError: null,
+        walletAttempts: 0,
+      })),
+      setBalance: assign(({ context, event }) => {
+        if (event.type === "BALANCE_UPDATED") {
+          return { ...context, balance: event.balance };
+        }
+        if ("output" in event) {
+          return { ...context, balance: event.output as Money };
+        }
+        return context;
+      }),
+      // A refused debit reports the wallet's balance
+      recordWalletError: assign(({ context, event }) => {
+        const error = "error" in event ? event.error : undefined;
+        return {
+          ...context,
+          balance:
+            error instanceof InsufficientFundsError
+              ? error.balance
+              : context.balance,
+          walletError: getWalletErrorKind(error),
+          walletAttempts: context.walletAttempts + 1,
         };
       }),
+      clearWalletError: assign(({ context }) => ({
+        ...context,
+        walletError: null,
+      })),
+      resetWalletAttempts: assign(({ context }) => ({
+        ...context,
+        walletAttempts: 0,
+      })),
       updateSpinResult: assign(({ context, event }) => {
         if (event.type === "SPIN_COMPLETE") {
           return {
@@ -147,38 +625,105 @@ export const gameStateMachine = createMachine(
       resetSpinState: assign(({ context }) => ({
         ...context,
         isSpinning: false,
-        canSpin: context.balance >= context.currentBet,
+        canSpin: canAfford(context, context.currentBet),
         reelResults: null,
       })),
-      increaseBet: assign(({ context }) => {
-        const newBet = context.currentBet + 5;
+      // Guards have checked that the level or line count exists
+      increaseBet: assign(({ context }) =>
+        withBet(
+          context,
+          Betting.getNextLevel(context.coinsPerLine, context.activeLines, 1)!,
+          context.activeLines
+        )
+      ),
+      decreaseBet: assign(({ context }) =>
+        withBet(
+          context,
+          Betting.getNextLevel(context.coinsPerLine, context.activeLines, -1)!,
+          context.activeLines
+        )
+      ),
+      // A typed bet snaps to the nearest level
+      setBet: assign(({ context, event }) => {
+        if (event.type === "SET_BET") {
+          return withBet(
+            context,
+            Betting.snapToLevel(
+              MoneyMath.fromMajor(event.amount),
+              context.activeLines
+            )!,
+            context.activeLines
+          );
+        }
+        return context;
+      }),
+      increaseLines: assign(({ context }) =>
+        withLines(context, context.activeLines + 1)
+      ),
+      decreaseLines: assign(({ context }) =>
+        withLines(context, context.activeLines - 1)
+      ),
+      setLines: assign(({ context, event }) => {
+        if (event.type === "SET_LINES") {
+          return withLines(context, event.lines);
+        }
+        return context;
+      }),
+      startFreeSpins: assign(({ context }) => {
+        const awarded = context.reelResults?.freeSpinsAwarded ?? 0;
         return {
           ...context,
-          currentBet: newBet,
-          canSpin: context.balance >= newBet,
+          freeSpinsRemaining: awarded,
+          freeSpinsAwarded: awarded,
+          bonusWin: MoneyMath.zero(),
+          canSpin: false,
+          isSpinning: false,
         };
       }),
-      decreaseBet: assign(({ context }) => {
-        const newBet = Math.max(1, context.currentBet - 5);
+      // Free spins don't deduct the bet
+      startFreeSpin: assign(({ context }) => ({
+        ...context,
+        freeSpinsRemaining: context.freeSpinsRemaining - 1,
+        isSpinning: true,
+        lastWin: MoneyMath.zero(),
+      })),
+      awardRetrigger: assign(({ context }) => {
+        const retrigger = context.reelResults?.freeSpinsAwarded ?? 0;
         return {
           ...context,
-          currentBet: newBet,
-          canSpin: context.balance >= newBet,
+          isSpinning: false,
+          freeSpinsRemaining: context.freeSpinsRemaining + retrigger,
+          freeSpinsAwarded: context.freeSpinsAwarded + retrigger,
         };
       }),
-      setBet: assign(({ context, event }) => {
-        if (event.type === "SET_BET") {
-          const newBet = event.amount;
-          return {
-            ...context,
-            currentBet: newBet,
-            canSpin: context.balance >= newBet,
-          };
-        }
-        return context;
+      addBonusWin: assign(({ context }) => {
+        const winAmount = context.reelResults?.totalWin ?? MoneyMath.zero();
+        return {
+          ...context,
+          lastWin: winAmount,
+          bonusWin: MoneyMath.add(context.bonusWin, winAmount),
+          roundWin: MoneyMath.add(context.roundWin, winAmount),
+        };
+      }),
+      // The feature total is paid out with the round win once it ends
+      endFreeSpins: assign(({ context }) => ({
+        ...context,
+        lastWin: context.bonusWin,
+        freeSpinsRemaining: 0,
+        isSpinning: false,
+        reelResults: null,
+      })),
+      // The balance is the wallet's to keep; the manager reads it back
+      resetGame: assign(({ context }) => {
+        const initial = createInitialContext();
+        return {
+          ...initial,
+          balance: context.balance,
+          canSpin: canAfford(context, initial.currentBet),
+        };
       }),
-      resetGame: assign(() => initialContext),
     },
+    actors: createWalletActors(new InMemoryWallet()),
   }
 );
 
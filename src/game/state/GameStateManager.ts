@@ -1,30 +1,146 @@
-import { createActor, type Actor } from "xstate";
+import { createActor, type Actor, type Snapshot } from "xstate";
 import {
+  createWalletActors,
   gameStateMachine,
   type GameContext,
   type GameEvent,
 } from "./GameStateMachine";
-import type { SpinResult } from "../../types";
+import type { Money, SpinResult } from "../../types";
+import { InMemoryWallet, type Wallet } from "../wallet";
+// Journal and recovery modules are imported directly, so headless tools
+// don't pull in the browser stores
+import { InMemoryJournal } from "../journal/InMemoryJournal";
+import type { JournalEntry, RoundJournal } from "../journal/RoundJournal";
+import { InMemoryRecoveryStore } from "../recovery/InMemoryRecoveryStore";
+import type { RecoveryStore, SavedRound } from "../recovery/RoundRecovery";
 
 export class GameStateManager {
-  private actor: Actor<typeof gameStateMachine>;
+  private machine: typeof gameStateMachine;
+  private actor!: Actor<typeof gameStateMachine>;
   private listeners: Map<string, (context: GameContext) => void> = new Map();
+  private wallet: Wallet;
+  private journal: RoundJournal;
+  private recovery: RecoveryStore;
+  // Spin result drawn last in the current round, saved with the round
+  private lastSpin: SpinResult | null = null;
+  private spinPending: boolean = false;
+  // Whether the store holds a round this manager saved or resumed. Until
+  // then the store is left alone, so a round saved before a reload is kept
+  // until it has been resumed.
+  private roundSaved: boolean = false;
 
-  constructor() {
-    this.actor = createActor(gameStateMachine);
+  constructor(
+    wallet: Wallet = new InMemoryWallet(),
+    journal: RoundJournal = new InMemoryJournal(),
+    recovery: RecoveryStore = new InMemoryRecoveryStore()
+  ) {
+    this.wallet = wallet;
+    this.journal = journal;
+    this.recovery = recovery;
+    this.machine = gameStateMachine.provide({
+      actors: createWalletActors(wallet, journal),
+    });
+    this.startActor();
+  }
+
+  private startActor(snapshot?: Snapshot<unknown>): void {
+    const actor = createActor(this.machine, snapshot ? { snapshot } : {});
+    // A snapshot the machine no longer matches fails to restore
+    const { status, error } = actor.getSnapshot();
+    if (status === "error") {
+      throw error;
+    }
+    this.actor = actor;
 
     // Subscribe to state changes
     this.actor.subscribe((state) => {
+      this.saveRound();
       this.notifyListeners(state.context);
     });
 
     this.actor.start();
   }
 
+  /**
+   * Continue a round saved before the page was closed. Its wallet calls
+   * are made again, which the wallet ignores if they went through.
+   */
+  resumeRound(round: SavedRound): void {
+    this.actor.stop();
+    this.lastSpin = round.lastSpin;
+    this.spinPending = round.spinPending;
+
+    try {
+      this.startActor(round.snapshot);
+    } catch (error) {
+      console.error("Failed to resume the saved round:", error);
+      this.lastSpin = null;
+      this.spinPending = false;
+      this.startActor();
+    }
+
+    // The saved round is now this manager's to save or clear
+    this.roundSaved = true;
+    this.saveRound();
+    if (this.can({ type: "RESUME" })) {
+      this.send({ type: "RESUME" });
+    }
+  }
+
+  /**
+   * Spin result drawn for the current spin that the reels have not shown
+   * yet, e.g. when the page was closed mid-spin
+   */
+  get pendingSpin(): SpinResult | null {
+    return this.spinPending ? this.lastSpin : null;
+  }
+
+  // A round is saved on every change until it is back to idle
+  private saveRound(): void {
+    if (this.currentState === "idle") {
+      this.lastSpin = null;
+      this.spinPending = false;
+      if (this.roundSaved) {
+        this.recovery.clear();
+        this.roundSaved = false;
+      }
+      return;
+    }
+
+    this.roundSaved = true;
+    this.recovery.save({
+      version: 1,
+      snapshot: this.actor.getPersistedSnapshot(),
+      lastSpin: this.lastSpin,
+      spinPending: this.spinPending,
+    });
+  }
+
   get currentState() {
     return this.actor.getSnapshot().value;
   }
 
+  /**
+   * Current state as a dotted path, e.g. "freeSpins.spinning"
+   */
+  get statePath(): string {
+    let value = this.currentState as string | Record<string, unknown>;
+    const path: string[] = [];
+
+    while (typeof value === "object") {
+      const [key] = Object.keys(value);
+      path.push(key);
+      value = value[key] as string | Record<string, unknown>;
+    }
+    path.push(value);
+
+    return path.join(".");
+  }
+
+  get isInFreeSpins(): boolean {
+    return this.actor.getSnapshot().matches("freeSpins");
+  }
+
   get context(): GameContext {
     return this.actor.getSnapshot().context;
   }
@@ -42,6 +158,13 @@ export class GameStateManager {
     this.actor.send(event);
   }
 
+  /**
+   * Whether the current state accepts the event, guards included
+   */
+  can(event: GameEvent): boolean {
+    return this.actor.getSnapshot().can(event);
+  }
+
   // Convenience methods for common actions
   spin(): void {
     if (this.canSpin) {
@@ -49,8 +172,24 @@ export class GameStateManager {
     }
   }
 
+  /**
+   * Record a spin result as soon as it is drawn, so a reload shows the
+   * same result instead of drawing another
+   */
+  commitSpin(result: SpinResult): void {
+    this.lastSpin = result;
+    this.spinPending = true;
+    this.saveRound();
+  }
+
   completeSpin(result: SpinResult): void {
-    this.send({ type: "SPIN_COMPLETE", result });
+    const event: GameEvent = { type: "SPIN_COMPLETE", result };
+    if (this.can(event)) {
+      this.journalSpin(result);
+    }
+    this.lastSpin = result;
+    this.spinPending = false;
+    this.send(event);
   }
 
   increaseBet(): void {
@@ -65,12 +204,89 @@ export class GameStateManager {
     this.send({ type: "SET_BET", amount });
   }
 
+  increaseLines(): void {
+    this.send({ type: "INCREASE_LINES" });
+  }
+
+  decreaseLines(): void {
+    this.send({ type: "DECREASE_LINES" });
+  }
+
+  setLines(lines: number): void {
+    this.send({ type: "SET_LINES", lines });
+  }
+
   completeWinCelebration(): void {
     this.send({ type: "WIN_CELEBRATION_COMPLETE" });
   }
 
-  resetGame(): void {
+  completeFreeSpinsIntro(): void {
+    this.send({ type: "FREE_SPINS_INTRO_COMPLETE" });
+  }
+
+  completeFreeSpinsOutro(): void {
+    this.send({ type: "FREE_SPINS_OUTRO_COMPLETE" });
+  }
+
+  /**
+   * Reset bets and session totals, then read the balance from the wallet,
+   * which a reset never changes
+   */
+  async resetGame(): Promise<void> {
     this.send({ type: "RESET_GAME" });
+    await this.syncBalance();
+  }
+
+  /**
+   * Read the balance from the wallet; only applied between rounds
+   */
+  async syncBalance(): Promise<void> {
+    try {
+      const balance = await this.wallet.getBalance();
+      this.send({ type: "BALANCE_UPDATED", balance });
+    } catch (error) {
+      console.error("Failed to read the wallet balance:", error);
+    }
+  }
+
+  retryWallet(): void {
+    this.send({ type: "RETRY_WALLET" });
+  }
+
+  /**
+   * Journaled spins and payouts, optionally of one round
+   */
+  getJournal(roundId?: string): Promise<JournalEntry[]> {
+    return this.journal.getEntries(roundId);
+  }
+
+  // Record a spin as it is committed, before its wins are evaluated
+  private journalSpin(result: SpinResult): void {
+    const { context } = this;
+    const freeSpin = this.isInFreeSpins;
+
+    this.journal
+      .append({
+        kind: "spin",
+        roundId: context.roundId!,
+        spin: freeSpin
+          ? context.freeSpinsAwarded - context.freeSpinsRemaining
+          : 0,
+        timestamp: new Date().toISOString(),
+        bet: context.currentBet,
+        activeLines: context.activeLines,
+        freeSpin,
+        seed: result.seed ?? null,
+        grid: result.reelResults,
+        wins: result.wins,
+        totalWin: result.totalWin,
+        // Both balances are the wallet's, before and after the debit
+        balanceBefore: freeSpin
+          ? context.balance
+          : (context.balanceBeforeBet ?? context.balance),
+        balanceAfter: context.balance,
+      })
+      .catch((error) => console.error("Failed to journal spin:", error));
   }
 
   // Subscribe to state changes
@@ -92,22 +308,38 @@ export class GameStateManager {
     });
   }
 
-  get balance(): number {
+  get balance(): Money {
     return this.context.balance;
   }
 
-  get currentBet(): number {
+  get currentBet(): Money {
     return this.context.currentBet;
   }
 
-  get lastWin(): number {
+  get activeLines(): number {
+    return this.context.activeLines;
+  }
+
+  get lastWin(): Money {
     return this.context.lastWin;
   }
 
-  get totalWin(): number {
+  get totalWin(): Money {
     return this.context.totalWin;
   }
 
+  get freeSpinsRemaining(): number {
+    return this.context.freeSpinsRemaining;
+  }
+
+  get bonusWin(): Money {
+    return this.context.bonusWin;
+  }
+
+  get roundWin(): Money {
+    return this.context.roundWin;
+  }
+
   get spinResults(): SpinResult | null {
     return this.context.reelResults;
   }
@@ -1,5 +1,6 @@
 import { createMachine, assign, fromPromise } from "xstate";
-import type { WinResult, PaylineConfig, SymbolType } from "../../types";
+import type { WinResult, PaylineConfig, SymbolType, Money } from "../../types";
+import { Betting } from "../logic/Betting";
 
 // Animation timing configurations
 export const ANIMATION_TIMINGS = {
@@ -27,7 +28,8 @@ export type PaylineEvent =
   | {
       type: "EVALUATE_PAYLINES";
       reelResults: SymbolType[][];
-      currentBet: number;
+      currentBet: Money;
+      activeLines?: number;
     }
   | { type: "SET_WINS_AND_ANIMATE"; wins: WinResult[] }
   | { type: "SKIP_ANIMATION" }
@@ -79,7 +81,8 @@ export const evaluatePaylines = fromPromise(
   }: {
     input: {
       reelResults: SymbolType[][];
-      currentBet: number;
+      currentBet: Money;
+      activeLines?: number;
       onProgress?: (
         progress: number,
         total: number,
@@ -94,7 +97,8 @@ export const evaluatePaylines = fromPromise(
       // Evaluate paylines and get wins
       const result = await WinEvaluatorV5.evaluateWinsProgressive(
         input.reelResults,
-        input.currentBet
+        input.currentBet,
+        input.activeLines
       );
 
       return { wins: result, evaluatedPaylines: [] };
@@ -157,7 +161,13 @@ export const paylineStateMachine = createMachine(
           input: ({ context, event }) => ({
             reelResults: context.reelResults!,
             currentBet:
-              event.type === "EVALUATE_PAYLINES" ? event.currentBet : 20,
+              event.type === "EVALUATE_PAYLINES"
+                ? event.currentBet
+                : Betting.defaultBet,
+            ...(event.type === "EVALUATE_PAYLINES" &&
+            event.activeLines !== undefined
+              ? { activeLines: event.activeLines }
+              : {}),
             onProgress: (
               _progress: number,
               _total: number,
@@ -1,6 +1,6 @@
 import { createActor } from "xstate";
 import { paylineStateMachine } from "./PaylineStateMachine";
-import type { WinResult, SymbolType } from "../../types";
+import type { WinResult, SymbolType, Money } from "../../types";
 
 export class PaylineStateManager {
   private actor: ReturnType<typeof createActor<typeof paylineStateMachine>>;
@@ -131,11 +131,16 @@ export class PaylineStateManager {
     });
   }
 
-  evaluatePaylines(reelResults: SymbolType[][], currentBet: number): void {
+  evaluatePaylines(
+    reelResults: SymbolType[][],
+    currentBet: Money,
+    activeLines?: number
+  ): void {
     this.actor.send({
       type: "EVALUATE_PAYLINES",
       reelResults,
       currentBet,
+      ...(activeLines !== undefined ? { activeLines } : {}),
     });
   }
 
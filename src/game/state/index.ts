@@ -1,4 +1,4 @@
-export { gameStateMachine, type GameStateMachine, type GameContext, type GameEvent } from './GameStateMachine';
+export { gameStateMachine, type GameStateMachine, type GameContext, type GameEvent, type WalletErrorKind, FREE_SPINS_TIMINGS, WALLET_TIMINGS, createWalletActors } from './GameStateMachine';
 export { GameStateManager } from './GameStateManager';
 export { 
   paylineStateMachine, 
@@ -1,5 +1,9 @@
 import { SymbolType } from "../../types";
 import type { SymbolConfig } from "../../types";
+import {
+  defaultRandomGenerator,
+  type RandomGenerator,
+} from "../rng/RandomGenerator";
 
 export const SYMBOL_CONFIGS: SymbolConfig[] = [
   {
@@ -12,6 +16,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 2.5,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Apple.png",
+    clusterPayouts: {
+      5: 1.0,
+      8: 2.0,
+      12: 5.0,
+      15: 10.0,
+    },
   },
   {
     type: SymbolType.BLUEBERRY,
@@ -23,6 +33,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 3.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/BlueBerry.png",
+    clusterPayouts: {
+      5: 1.5,
+      8: 3.0,
+      12: 6.0,
+      15: 12.0,
+    },
   },
   {
     type: SymbolType.CHERRY,
@@ -34,6 +50,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 4.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Cherry.png",
+    clusterPayouts: {
+      5: 2.0,
+      8: 4.0,
+      12: 8.0,
+      15: 16.0,
+    },
   },
   {
     type: SymbolType.COCONUT,
@@ -45,6 +67,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 5.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Coconut.png",
+    clusterPayouts: {
+      5: 2.5,
+      8: 5.0,
+      12: 10.0,
+      15: 20.0,
+    },
   },
   {
     type: SymbolType.KIWI,
@@ -56,6 +84,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 6.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Kiwi.png",
+    clusterPayouts: {
+      5: 3.0,
+      8: 6.0,
+      12: 12.0,
+      15: 24.0,
+    },
   },
   {
     type: SymbolType.ORANGE,
@@ -67,6 +101,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 8.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Orange.png",
+    clusterPayouts: {
+      5: 4.0,
+      8: 8.0,
+      12: 16.0,
+      15: 32.0,
+    },
   },
   {
     type: SymbolType.PEAR,
@@ -78,6 +118,12 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 10.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Pear.png",
+    clusterPayouts: {
+      5: 5.0,
+      8: 10.0,
+      12: 20.0,
+      15: 40.0,
+    },
   },
   {
     type: SymbolType.STRAWBERRY,
@@ -89,6 +135,36 @@ export const SYMBOL_CONFIGS: SymbolConfig[] = [
       5: 12.0,
     },
     imagePath: "/assets/images/symbols/Fruit Assets/Strawberry.png",
+    clusterPayouts: {
+      5: 6.0,
+      8: 12.0,
+      12: 24.0,
+      15: 48.0,
+    },
+  },
+  {
+    type: SymbolType.WILD,
+    name: "Wild",
+    rarity: 0.1,
+    payoutMultipliers: {
+      3: 4.0,
+      4: 8.0,
+      5: 16.0,
+    },
+    imagePath: "/assets/images/symbols/Wild.svg",
+    wild: {},
+  },
+  {
+    type: SymbolType.SCATTER,
+    name: "Scatter",
+    rarity: 0.1,
+    payoutMultipliers: {
+      3: 2.0,
+      4: 10.0,
+      5: 50.0,
+    },
+    imagePath: "/assets/images/symbols/Scatter.svg",
+    scatter: true,
   },
 ];
 
@@ -100,76 +176,58 @@ export function getSymbolConfig(type: SymbolType): SymbolConfig {
   return config;
 }
 
+export function isWildSymbol(type: SymbolType): boolean {
+  return !!getSymbolConfig(type).wild;
+}
+
+export function isScatterSymbol(type: SymbolType): boolean {
+  return !!getSymbolConfig(type).scatter;
+}
+
+/**
+ * Whether a wild symbol may stand in for the given symbol. Wilds never
+ * stand in for other wilds or for scatters.
+ */
+export function canSubstitute(wild: SymbolType, target: SymbolType): boolean {
+  const wildConfig = getSymbolConfig(wild).wild;
+  if (!wildConfig || isWildSymbol(target) || isScatterSymbol(target)) {
+    return false;
+  }
+  return wildConfig.substitutes?.includes(target) ?? true;
+}
+
 export function getSymbolsByRarity(): SymbolType[] {
   return SYMBOL_CONFIGS.sort((a, b) => b.rarity - a.rarity).map(
     (config) => config.type
   );
 }
 
-let randomOrderIndex = 0;
-let randomCurrentReelSymbols: string[] = [];
 let shouldLogSymbols = true;
 
-export function generateRandomSymbol(): SymbolType {
+export function generateRandomSymbol(
+  rng: RandomGenerator = defaultRandomGenerator
+): SymbolType {
   const totalWeight = SYMBOL_CONFIGS.reduce(
     (sum, config) => sum + config.rarity,
     0
   );
-  let random = Math.random() * totalWeight;
+  let random = rng.next() * totalWeight;
 
   for (const config of SYMBOL_CONFIGS) {
     random -= config.rarity;
     if (random <= 0) {
-      const symbolName = config.name;
-
-      const symbolsPerReel = 7;
-      // const reelNumber = Math.floor(randomOrderIndex / symbolsPerReel) + 1;
-      const positionInReel = randomOrderIndex % symbolsPerReel;
-
-      if (positionInReel >= 1 && positionInReel <= 3) {
-        randomCurrentReelSymbols.push(symbolName);
-      }
-
-      if (randomCurrentReelSymbols.length === 3) {
-        if (shouldLogSymbols) {
-          //   `Reel ${reelNumber}: [${randomCurrentReelSymbols.join(", ")}]`
-          // );
-        }
-        randomCurrentReelSymbols = [];
-      }
-
-      randomOrderIndex++;
       return config.type;
     }
   }
 
-  randomOrderIndex++;
   return SYMBOL_CONFIGS[0].type;
 }
 
+// Cycles through every symbol type in order, independent of the grid size
 let orderIndex = 0;
-let currentReelSymbols: string[] = [];
-let allGeneratedSymbols: string[] = [];
 export function generateOrderedSymbol(): SymbolType {
   const symbols = Object.values(SymbolType);
   const symbol = symbols[orderIndex % symbols.length];
-  const symbolName = getSymbolConfig(symbol).name;
-
-  allGeneratedSymbols.push(symbolName);
-
-  const symbolsPerReel = 7;
-  // const reelNumber = Math.floor(orderIndex / symbolsPerReel) + 1;
-  const positionInReel = orderIndex % symbolsPerReel;
-
-  if (positionInReel >= 1 && positionInReel <= 3) {
-    currentReelSymbols.push(symbolName);
-  }
-
-  if (currentReelSymbols.length === 3) {
-    if (shouldLogSymbols) {
-    }
-    currentReelSymbols = [];
-  }
 
   orderIndex++;
   return symbol;
@@ -177,10 +235,6 @@ export function generateOrderedSymbol(): SymbolType {
 
 export function resetOrderIndex(): void {
   orderIndex = 0;
-  randomOrderIndex = 0;
-  currentReelSymbols = [];
-  randomCurrentReelSymbols = [];
-  allGeneratedSymbols = [];
   if (shouldLogSymbols) {
   }
 }
@@ -195,12 +249,19 @@ export function disableSymbolLogging(): void {
 
 export let useOrderedGeneration = false;
 
-export function generateSymbol(): SymbolType {
+export function generateSymbol(
+  rng: RandomGenerator = defaultRandomGenerator
+): SymbolType {
   return useOrderedGeneration
     ? generateOrderedSymbol()
-    : generateRandomSymbol();
+    : generateRandomSymbol(rng);
 }
 
+/**
+ * Deal symbols in order instead of drawing them, starting over from the
+ * first symbol. Spins resolved in ordered mode don't depend on the round
+ * seed and can't be replayed from one.
+ */
 export function setGenerationMode(ordered: boolean): void {
   useOrderedGeneration = ordered;
   if (ordered) {
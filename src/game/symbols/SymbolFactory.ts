@@ -3,14 +3,25 @@ import { Symbol } from "./Symbol";
 import { SYMBOL_CONFIGS, getSymbolConfig } from "./SymbolConfig";
 import { SymbolType } from "../../types";
 import { SymbolPool } from "./SymbolPool";
+import {
+  defaultRandomGenerator,
+  type RandomGenerator,
+} from "../rng/RandomGenerator";
 
 export class SymbolFactory {
   private textures: Map<SymbolType, PIXI.Texture> = new Map();
   private isInitialized: boolean = false;
   private symbolPool: SymbolPool | null = null;
   private usePooling: boolean = true;
+  private _rng: RandomGenerator;
 
-  constructor() {}
+  constructor(rng: RandomGenerator = defaultRandomGenerator) {
+    this._rng = rng;
+  }
+
+  get rng(): RandomGenerator {
+    return this._rng;
+  }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) {
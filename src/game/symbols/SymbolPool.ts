@@ -1,15 +1,27 @@
 import { SymbolType } from "../../types";
 import { Symbol } from "./Symbol";
 import { SymbolFactory } from "./SymbolFactory";
+import { GAME_CONFIG } from "../config/GameConfig";
+
+// Pool sizes below are tuned for a 5x3 grid and grow with the grid area
+const BASE_GRID_CELLS = 15;
 
 export class SymbolPool {
   private pools: Map<SymbolType, Symbol[]> = new Map();
   private symbolFactory: SymbolFactory;
-  private maxPoolSize: number = 15; // Maximum symbols per type in pool
-  private initialPoolSize: number = 8; // Initial symbols to pre-create
+  private maxPoolSize: number; // Maximum symbols per type in pool
+  private initialPoolSize: number; // Initial symbols to pre-create
 
   constructor(symbolFactory: SymbolFactory) {
     this.symbolFactory = symbolFactory;
+
+    const gridScale = Math.max(
+      1,
+      (GAME_CONFIG.reels.count * GAME_CONFIG.reels.rows) / BASE_GRID_CELLS
+    );
+    this.maxPoolSize = Math.ceil(15 * gridScale);
+    this.initialPoolSize = Math.ceil(8 * gridScale);
+
     this.initializePools();
   }
 
@@ -4,6 +4,9 @@ export { SymbolPool } from './SymbolPool';
 export { 
   SYMBOL_CONFIGS, 
   getSymbolConfig, 
+  isWildSymbol,
+  isScatterSymbol,
+  canSubstitute,
   getSymbolsByRarity, 
   generateRandomSymbol,
   generateSymbol,
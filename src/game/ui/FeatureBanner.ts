@@ -0,0 +1,124 @@
+import * as PIXI from "pixi.js";
+import gsap from "gsap";
+
+/**
+ * Full-width announcement over the reels, e.g. the free spins intro and
+ * outro. Clicking the banner dismisses it early.
+ */
+export class FeatureBanner extends PIXI.Container {
+  private backdrop: PIXI.Graphics;
+  private titleText: PIXI.Text;
+  private subtitleText: PIXI.Text;
+  private onDismiss: (() => void) | null = null;
+  private bannerWidth: number;
+  private bannerHeight: number;
+
+  constructor(width: number, height: number) {
+    super();
+
+    this.bannerWidth = width;
+    this.bannerHeight = height;
+
+    this.backdrop = new PIXI.Graphics();
+    this.titleText = new PIXI.Text({
+      text: "",
+      style: {
+        fontSize: 64,
+        fill: 0xfeca57,
+        fontFamily: "Arial, sans-serif",
+        fontWeight: "bold",
+        stroke: { color: 0x3c0a5a, width: 6 },
+        align: "center",
+      },
+    });
+    this.subtitleText = new PIXI.Text({
+      text: "",
+      style: {
+        fontSize: 28,
+        fill: 0xffffff,
+        fontFamily: "Arial, sans-serif",
+        align: "center",
+      },
+    });
+
+    this.titleText.anchor.set(0.5);
+    this.subtitleText.anchor.set(0.5);
+
+    this.addChild(this.backdrop);
+    this.addChild(this.titleText);
+    this.addChild(this.subtitleText);
+
+    this.layout();
+
+    this.visible = false;
+    this.eventMode = "static";
+    this.cursor = "pointer";
+    this.on("pointerdown", () => this.dismiss());
+  }
+
+  private layout(): void {
+    this.backdrop.clear();
+    this.backdrop.rect(0, 0, this.bannerWidth, this.bannerHeight);
+    this.backdrop.fill({ color: 0x000000, alpha: 0.65 });
+
+    this.titleText.x = this.bannerWidth / 2;
+    this.titleText.y = this.bannerHeight / 2 - 30;
+
+    this.subtitleText.x = this.bannerWidth / 2;
+    this.subtitleText.y = this.bannerHeight / 2 + 40;
+  }
+
+  get isShowing(): boolean {
+    return this.visible;
+  }
+
+  show(title: string, subtitle: string, onDismiss?: () => void): void {
+    this.titleText.text = title;
+    this.subtitleText.text = subtitle;
+    this.onDismiss = onDismiss ?? null;
+
+    gsap.killTweensOf(this);
+    gsap.killTweensOf(this.titleText.scale);
+
+    this.visible = true;
+    this.alpha = 0;
+    this.titleText.scale.set(0.6);
+
+    gsap.to(this, { alpha: 1, duration: 0.3, ease: "power2.out" });
+    gsap.to(this.titleText.scale, {
+      x: 1,
+      y: 1,
+      duration: 0.5,
+      ease: "back.out(2)",
+    });
+  }
+
+  hide(): void {
+    if (!this.visible) {
+      return;
+    }
+
+    this.onDismiss = null;
+    gsap.killTweensOf(this);
+    gsap.to(this, {
+      alpha: 0,
+      duration: 0.25,
+      ease: "power2.in",
+      onComplete: () => {
+        this.visible = false;
+      },
+    });
+  }
+
+  private dismiss(): void {
+    const onDismiss = this.onDismiss;
+    this.hide();
+    onDismiss?.();
+  }
+
+  override destroy(): void {
+    gsap.killTweensOf(this);
+    gsap.killTweensOf(this.titleText.scale);
+    super.destroy({ children: true });
+  }
+}
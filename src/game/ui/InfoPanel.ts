@@ -1,4 +1,7 @@
-import { SYMBOL_CONFIGS } from "../symbols/SymbolConfig";
+import { SYMBOL_CONFIGS, getSymbolConfig } from "../symbols/SymbolConfig";
+import { GAME_CONFIG } from "../config/GameConfig";
+import { PAYLINE_CONFIGS } from "../config/PaylineConfig";
+import type { SymbolConfig, WinPolicy } from "../../types";
 import "./InfoPanel.css";
 
 export class InfoPanel {
@@ -55,32 +58,25 @@ export class InfoPanel {
           <ul style="margin: 15px 0 !important; padding-left: 20px !important; color: #000000 !important;">
             <li style="margin: 8px 0 !important; color: #000000 !important;">Place your bet using the bet controls</li>
             <li style="margin: 8px 0 !important; color: #000000 !important;">Click the spin button to start the reels</li>
-            <li style="margin: 8px 0 !important; color: #000000 !important;">Match 3 or more identical symbols, starting always from the leftmost reel on a payline to win</li>
+            <li style="margin: 8px 0 !important; color: #000000 !important;">${this.getWinRule()}</li>
             <li style="margin: 8px 0 !important; color: #000000 !important;">Higher bets mean bigger potential winnings</li>
+            ${this.getMaxWinRule()}
             <li style="margin: 8px 0 !important; color: #000000 !important;">Check the payout table below for symbol values</li>
           </ul>
         </div>
         
-        <div class="paylines-section" style="margin-bottom: 30px !important; color: #000000 !important;">
-          <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">Paylines</h2>
-          <p style="margin-bottom: 15px !important; color: #666 !important;">The game features 20 different paylines. Match symbols along any of these patterns to win:</p>
-          <div class="paylines-image-container" style="text-align: center !important; margin: 20px 0 !important; background: #f8f9fa !important; padding: 20px !important; border-radius: 8px !important; border: 1px solid #ddd !important;">
-            <img src="/assets/images/paylines.png" alt="Paylines Pattern" class="paylines-image" style="max-width: 100% !important; height: auto !important; border-radius: 4px !important; filter: none !important; background: transparent !important;">
-            <p style="margin-top: 10px !important; font-size: 14px !important; color: #666 !important; font-style: italic !important;">Each numbered pattern represents a different payline</p>
-          </div>
-        </div>
-        
+        ${this.generateWinModeSection()}
+        ${this.generateWildSection()}
+        ${this.generateScatterSection()}
         <div class="payouts-section" style="color: #000000 !important;">
           <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">Symbol Payouts</h2>
-          <p style="margin-bottom: 15px !important; font-style: italic !important; color: #666 !important;">Multipliers are applied to your bet amount</p>
+          <p style="margin-bottom: 15px !important; font-style: italic !important; color: #666 !important;">${this.getPayoutBasisRule()}</p>
           
           <table class="payout-table" style="width: 100% !important; border-collapse: collapse !important; margin: 20px 0 !important; background: #ffffff !important; border-radius: 8px !important; overflow: hidden !important; box-shadow: 0 2px 8px rgba(0,0,0,0.1) !important;">
             <thead style="background: #000000 !important; color: #ffffff !important;">
               <tr>
                 <th style="padding: 15px 12px !important; text-align: left !important; font-weight: bold !important; font-size: 16px !important; color: #ffffff !important; width: 25% !important;">Symbol</th>
-                <th style="padding: 15px 12px !important; text-align: center !important; font-weight: bold !important; font-size: 14px !important; color: #ffffff !important; width: 15% !important;">3 Match</th>
-                <th style="padding: 15px 12px !important; text-align: center !important; font-weight: bold !important; font-size: 14px !important; color: #ffffff !important; width: 15% !important;">4 Match</th>
-                <th style="padding: 15px 12px !important; text-align: center !important; font-weight: bold !important; font-size: 14px !important; color: #ffffff !important; width: 15% !important;">5 Match</th>
+                ${this.generatePayoutHeaders()}
               </tr>
             </thead>
             <tbody style="color: #000000 !important;">
@@ -189,22 +185,271 @@ export class InfoPanel {
     });
   }
 
+  private getWinRule(): string {
+    switch (GAME_CONFIG.evaluationMode) {
+      case "ways":
+        return "Match 3 or more identical symbols on adjacent reels, starting always from the leftmost reel, in any row to win";
+      case "cluster":
+        return `Form a cluster of ${this.getPayoutColumns()[0] ?? 5} or more identical symbols touching horizontally or vertically to win`;
+      default:
+        return this.getLineWinRule();
+    }
+  }
+
+  private getLineWinRule(): string {
+    switch (GAME_CONFIG.paylineDirection ?? "leftToRight") {
+      case "rightToLeft":
+        return "Match 3 or more identical symbols, starting always from the rightmost reel on a payline to win";
+      case "bothWays":
+        return "Match 3 or more identical symbols, starting from the leftmost or the rightmost reel on a payline to win; each payline pays its higher win";
+      case "leftToRight":
+        return "Match 3 or more identical symbols, starting always from the leftmost reel on a payline to win";
+    }
+  }
+
+  private getPayoutBasisRule(): string {
+    if ((GAME_CONFIG.evaluationMode ?? "lines") !== "lines") {
+      return "Multipliers are applied to your total bet";
+    }
+    const lines = GAME_CONFIG.paylines.length;
+    return `Multipliers are applied to your total bet with all ${lines} lines played; each line pays its multiplier x your bet per line x ${lines}`;
+  }
+
+  private getMaxWinRule(): string {
+    if (GAME_CONFIG.maxWin === undefined) {
+      return "";
+    }
+    return `<li style="margin: 8px 0 !important; color: #000000 !important;">A round pays at most ${GAME_CONFIG.maxWin.toLocaleString()}x the total bet, free spins included; reaching it ends the round</li>`;
+  }
+
+  /**
+   * Published rule for paying several winning lines, matching the evaluator's
+   * win policy
+   */
+  static getWinPolicyRule(
+    policy: WinPolicy = GAME_CONFIG.winPolicy ?? "containment"
+  ): string {
+    switch (policy) {
+      case "payAll":
+        return "All winning paylines are paid";
+      case "highestPerLine":
+        return "Only the highest win on each payline is paid, whatever its direction or symbol; wins on different paylines are added";
+      case "highestPerSymbol":
+        return "Each symbol pays only on its highest winning payline; wins of different symbols are added";
+      case "containment":
+        return "Wins on different paylines are added, except that a win whose symbols all lie within a higher win is not paid";
+    }
+  }
+
+  private generateWinModeSection(): string {
+    if (GAME_CONFIG.evaluationMode === "cluster") {
+      return `
+        <div class="cluster-section" style="margin-bottom: 30px !important; color: #000000 !important;">
+          <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">Cluster Pays</h2>
+          <ul style="margin: 15px 0 !important; padding-left: 20px !important; color: #000000 !important;">
+            <li style="margin: 8px 0 !important; color: #000000 !important;">Symbols pay in clusters anywhere on the grid, connected horizontally or vertically</li>
+            <li style="margin: 8px 0 !important; color: #000000 !important;">A cluster pays for the largest size it reaches in the payout table</li>
+          </ul>
+        </div>
+        `;
+    }
+
+    if (GAME_CONFIG.evaluationMode === "ways") {
+      const variableRows = GAME_CONFIG.reels.variableRows;
+      const ways = variableRows
+        ? `Up to ${variableRows.max ** GAME_CONFIG.reels.count}`
+        : GAME_CONFIG.reels.rows ** GAME_CONFIG.reels.count;
+      const rowsRule = variableRows
+        ? `<li style="margin: 8px 0 !important; color: #000000 !important;">Each reel shows ${variableRows.min} to ${variableRows.max} symbols per spin, changing the number of ways</li>`
+        : "";
+      return `
+        <div class="ways-section" style="margin-bottom: 30px !important; color: #000000 !important;">
+          <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">${ways} Ways</h2>
+          <ul style="margin: 15px 0 !important; padding-left: 20px !important; color: #000000 !important;">
+            <li style="margin: 8px 0 !important; color: #000000 !important;">Symbols pay on adjacent reels from the leftmost reel, in any row</li>
+            <li style="margin: 8px 0 !important; color: #000000 !important;">Every combination of one matching symbol per reel is a way; the payout is multiplied by the number of ways</li>
+            ${rowsRule}
+          </ul>
+        </div>
+        `;
+    }
+
+    return `
+        <div class="paylines-section" style="margin-bottom: 30px !important; color: #000000 !important;">
+          <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">Paylines</h2>
+          <p style="margin-bottom: 15px !important; color: #666 !important;">The game features ${GAME_CONFIG.paylines.length} different paylines. Match symbols along any of these patterns to win:</p>
+          <p style="margin-bottom: 15px !important; color: #000000 !important;">${InfoPanel.getWinPolicyRule()}</p>
+          ${
+            // The pattern chart shows the classic 5x3 lines
+            GAME_CONFIG.paylines === PAYLINE_CONFIGS
+              ? `
+          <div class="paylines-image-container" style="text-align: center !important; margin: 20px 0 !important; background: #f8f9fa !important; padding: 20px !important; border-radius: 8px !important; border: 1px solid #ddd !important;">
+            <img src="/assets/images/paylines.png" alt="Paylines Pattern" class="paylines-image" style="max-width: 100% !important; height: auto !important; border-radius: 4px !important; filter: none !important; background: transparent !important;">
+            <p style="margin-top: 10px !important; font-size: 14px !important; color: #666 !important; font-style: italic !important;">Each numbered pattern represents a different payline</p>
+          </div>`
+              : ""
+          }
+        </div>
+        `;
+  }
+
+  private generateWildSection(): string {
+    const wilds = SYMBOL_CONFIGS.filter((symbol) => symbol.wild);
+    if (wilds.length === 0) {
+      return "";
+    }
+
+    const rules = wilds
+      .map((symbol) => {
+        const substitutes = symbol.wild?.substitutes
+          ? symbol.wild.substitutes
+              .map((type) => getSymbolConfig(type).name)
+              .join(", ")
+          : SYMBOL_CONFIGS.some((config) => config.scatter)
+            ? "all other symbols except scatters"
+            : "all other symbols";
+        const multiplier = symbol.wild?.multiplier;
+        const substitution = `
+            <li style="margin: 8px 0 !important; color: #000000 !important;">
+              <img src="${symbol.imagePath}" alt="${symbol.name}" style="width: 24px !important; height: 24px !important; object-fit: contain !important; margin-right: 8px !important; vertical-align: middle !important; filter: none !important;">
+              <strong>${symbol.name}</strong> substitutes for ${substitutes}
+            </li>`;
+
+        // Ways and cluster wins only use wilds as substitutes
+        if ((GAME_CONFIG.evaluationMode ?? "lines") !== "lines") {
+          return substitution;
+        }
+
+        return `${substitution}
+            <li style="margin: 8px 0 !important; color: #000000 !important;">3 or more ${symbol.name} symbols from the leftmost reel pay from the ${symbol.name} row of the payout table</li>
+            <li style="margin: 8px 0 !important; color: #000000 !important;">When a line starts with ${symbol.name} symbols, it pays whichever is higher: the ${symbol.name} line or the symbol they complete</li>${
+              multiplier && multiplier !== 1
+                ? `
+            <li style="margin: 8px 0 !important; color: #000000 !important;">Line wins completed with a ${symbol.name} are multiplied by ${multiplier}x</li>`
+                : ""
+            }`;
+      })
+      .join("");
+
+    return `
+        <div class="wild-section" style="margin-bottom: 30px !important; color: #000000 !important;">
+          <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">Wild</h2>
+          <ul style="margin: 15px 0 !important; padding-left: 20px !important; color: #000000 !important;">${rules}
+          </ul>
+        </div>
+        `;
+  }
+
+  private generateScatterSection(): string {
+    const scatters = SYMBOL_CONFIGS.filter((symbol) => symbol.scatter);
+    if (scatters.length === 0) {
+      return "";
+    }
+
+    const rules = scatters
+      .map(
+        (symbol) => `
+            <li style="margin: 8px 0 !important; color: #000000 !important;">
+              <img src="${symbol.imagePath}" alt="${symbol.name}" style="width: 24px !important; height: 24px !important; object-fit: contain !important; margin-right: 8px !important; vertical-align: middle !important; filter: none !important;">
+              <strong>${symbol.name}</strong> pays anywhere on the reels, no payline needed
+            </li>
+            <li style="margin: 8px 0 !important; color: #000000 !important;">${symbol.name} wins are multiplied by your total bet and added to any line wins</li>${
+              GAME_CONFIG.evaluationMode === "cluster"
+                ? `
+            <li style="margin: 8px 0 !important; color: #000000 !important;">${Object.entries(
+              symbol.payoutMultipliers
+            )
+              .map(
+                (
+                  [count, payout]
+                ) => `${count} ${symbol.name} symbols pay ${payout}x`
+              )
+              .join(", ")}</li>`
+                : ""
+            }`
+      )
+      .join("");
+
+    return `
+        <div class="scatter-section" style="margin-bottom: 30px !important; color: #000000 !important;">
+          <h2 style="color: #2c3e50 !important; margin: 0 0 15px 0 !important; font-size: 20px !important; font-weight: bold !important; border-bottom: 2px solid #3498db !important; padding-bottom: 5px !important;">Scatter</h2>
+          <ul style="margin: 15px 0 !important; padding-left: 20px !important; color: #000000 !important;">${rules}
+          </ul>
+        </div>
+        `;
+  }
+
+  /**
+   * Paytable columns: symbol counts on a line or way, or cluster sizes
+   */
+  private getPayoutColumns(): number[] {
+    if (GAME_CONFIG.evaluationMode !== "cluster") {
+      return [3, 4, 5];
+    }
+
+    const sizes = new Set<number>();
+    SYMBOL_CONFIGS.forEach((symbol) => {
+      Object.keys(symbol.clusterPayouts ?? {}).forEach((size) =>
+        sizes.add(Number(size))
+      );
+    });
+    return [...sizes].sort((a, b) => a - b);
+  }
+
+  /**
+   * Pays shown in the table; wilds only pay on their own on lines, and
+   * scatter counts are listed in the scatter rules of cluster games
+   */
+  private getPayoutTable(symbol: SymbolConfig): { [key: number]: number } {
+    switch (GAME_CONFIG.evaluationMode) {
+      case "cluster":
+        return symbol.clusterPayouts ?? {};
+      case "ways":
+        return symbol.wild ? {} : symbol.payoutMultipliers;
+      default:
+        return symbol.payoutMultipliers;
+    }
+  }
+
+  private generatePayoutHeaders(): string {
+    const isCluster = GAME_CONFIG.evaluationMode === "cluster";
+    return this.getPayoutColumns()
+      .map(
+        (column) =>
+          `<th style="padding: 15px 12px !important; text-align: center !important; font-weight: bold !important; font-size: 14px !important; color: #ffffff !important; width: 15% !important;">${
+            isCluster ? `${column}+ Cluster` : `${column} Match`
+          }</th>`
+      )
+      .join("");
+  }
+
   private generatePayoutRows(): string {
-    const sortedSymbols = [...SYMBOL_CONFIGS].sort(
-      (a, b) => (b.payoutMultipliers[5] || 0) - (a.payoutMultipliers[5] || 0)
+    const columns = this.getPayoutColumns();
+    const topColumn = columns[columns.length - 1];
+    const sortedSymbols = SYMBOL_CONFIGS.filter(
+      (symbol) => Object.keys(this.getPayoutTable(symbol)).length > 0
+    ).sort(
+      (a, b) =>
+        (this.getPayoutTable(b)[topColumn] || 0) -
+        (this.getPayoutTable(a)[topColumn] || 0)
     );
 
     return sortedSymbols
       .map((symbol) => {
-        const payout3 = symbol.payoutMultipliers[3]
-          ? `${symbol.payoutMultipliers[3]}x`
-          : "-";
-        const payout4 = symbol.payoutMultipliers[4]
-          ? `${symbol.payoutMultipliers[4]}x`
-          : "-";
-        const payout5 = symbol.payoutMultipliers[5]
-          ? `${symbol.payoutMultipliers[5]}x`
-          : "-";
+        const payouts = this.getPayoutTable(symbol);
+        const cells = columns
+          .map((column, index) => {
+            const payout = payouts[column] ? `${payouts[column]}x` : "-";
+            const isHighest = index === columns.length - 1;
+
+            return `
+          <td class="payout-value${
+            isHighest ? " payout-highest" : ""
+          }" style="padding: 15px 12px !important; text-align: center !important; border-bottom: 1px solid #eee !important; font-weight: 500 !important; color: #000000 !important; background: #ffffff !important;${
+            isHighest && payout !== "-" ? " color: #28a745 !important;" : ""
+          }">${payout}</td>`;
+          })
+          .join("");
 
         return `
         <tr style="background-color: #ffffff !important;">
@@ -215,12 +460,7 @@ export class InfoPanel {
             <span class="symbol-name" style="font-weight: 500 !important; color: #000000 !important; font-size: 16px !important;">${
               symbol.name
             }</span>
-          </td>
-          <td class="payout-value" style="padding: 15px 12px !important; text-align: center !important; border-bottom: 1px solid #eee !important; font-weight: 500 !important; color: #000000 !important; background: #ffffff !important;">${payout3}</td>
-          <td class="payout-value" style="padding: 15px 12px !important; text-align: center !important; border-bottom: 1px solid #eee !important; font-weight: 500 !important; color: #000000 !important; background: #ffffff !important;">${payout4}</td>
-          <td class="payout-value payout-highest" style="padding: 15px 12px !important; text-align: center !important; border-bottom: 1px solid #eee !important; font-weight: 500 !important; color: #000000 !important; background: #ffffff !important;${
-            payout5 !== "-" ? " color: #28a745 !important;" : ""
-          }">${payout5}</td>
+          </td>${cells}
         </tr>
       `;
       })
@@ -1,13 +1,22 @@
 import * as PIXI from "pixi.js";
 import { GAME_CONFIG, LAYOUT } from "../config/GameConfig";
-import type { WinResult, PaylineConfig, Position } from "../../types";
+import type {
+  LineWinResult,
+  PaylineConfig,
+  Position,
+  WinResult,
+} from "../../types";
 import gsap from "gsap";
 
 export class PaylineDrawing {
   private paylineGraphics: Map<number, PIXI.Graphics[]> = new Map();
   private animationTweens: Map<number, gsap.core.Tween> = new Map();
+  private positionGraphics: PIXI.Graphics[] = [];
+  private positionTweens: gsap.core.Tween[] = [];
   private container: PIXI.Container;
   private animationSpeed: number = 1.0;
+  // Rows shown by each reel; null while every reel shows the configured rows
+  private reelRows: number[] | null = null;
 
   constructor(container: PIXI.Container) {
     this.container = container;
@@ -17,6 +26,10 @@ export class PaylineDrawing {
     this.animationSpeed = Math.max(0.1, Math.min(5, speed));
   }
 
+  public setReelRows(reelRows: number[] | null): void {
+    this.reelRows = reelRows;
+  }
+
   public calculateAnimationDuration(positions: Position[]): number {
     const totalSegments = positions.length - 1;
     const segmentDuration = 0.15 / this.animationSpeed;
@@ -34,13 +47,18 @@ export class PaylineDrawing {
   }
 
   async drawWinningPayline(
-    win: WinResult,
+    win: LineWinResult,
     animate: boolean = false
   ): Promise<void> {
     const lineColor = this.getPaylineColor(win.payline);
     const lineWidth = 4;
 
-    const positions = win.positions.map((pos) =>
+    // Trace the matched run from the end the win was read from
+    const matchedPositions =
+      win.direction === "rightToLeft"
+        ? [...win.positions].reverse()
+        : win.positions;
+    const positions = matchedPositions.map((pos) =>
       this.getSymbolScreenPosition(pos)
     );
 
@@ -62,6 +80,64 @@ export class PaylineDrawing {
     }
   }
 
+  /**
+   * Frame each winning position, for wins that aren't tied to a payline
+   */
+  async drawWinningPositions(
+    win: WinResult,
+    animate: boolean = false
+  ): Promise<void> {
+    const color = 0xfeca57;
+    const lineWidth = 4;
+    const inset = 8;
+    const width = GAME_CONFIG.reels.symbolWidth - inset * 2;
+
+    const frames = win.positions.map((position) => {
+      const { x, y } = this.getSymbolScreenPosition(position);
+      const height = this.getRowHeight(position.reel) - inset * 2;
+      const graphics = new PIXI.Graphics();
+
+      graphics.roundRect(x - width / 2, y - height / 2, width, height, 16);
+      graphics.stroke({ color, width: lineWidth + 4, alpha: 0.4 });
+      graphics.roundRect(x - width / 2, y - height / 2, width, height, 16);
+      graphics.stroke({ color, width: lineWidth, alpha: 0.9 });
+
+      this.container.addChild(graphics);
+      this.positionGraphics.push(graphics);
+      return graphics;
+    });
+
+    if (!animate) {
+      frames.forEach((graphics) => {
+        graphics.alpha = 0.6;
+      });
+      return;
+    }
+
+    return new Promise<void>((resolve) => {
+      frames.forEach((graphics) => {
+        graphics.alpha = 0;
+      });
+
+      const tween = gsap.to(frames, {
+        alpha: 1.0,
+        duration: 0.4 / this.animationSpeed,
+        ease: "power2.out",
+        repeat: 2,
+        yoyo: true,
+        repeatDelay: 0.1 / this.animationSpeed,
+        onComplete: () => {
+          const alive = frames.filter((graphics) => !graphics.destroyed);
+          if (alive.length > 0) {
+            gsap.set(alive, { alpha: 0.8 });
+          }
+          resolve();
+        },
+      });
+      this.positionTweens.push(tween);
+    });
+  }
+
   private async animateLineDrawing(
     paylineId: number,
     positions: { x: number; y: number }[],
@@ -254,10 +330,10 @@ export class PaylineDrawing {
     y: number;
   } {
     const symbolWidth = GAME_CONFIG.reels.symbolWidth;
-    const symbolHeight = GAME_CONFIG.reels.symbolHeight;
+    const symbolHeight = this.getRowHeight(position.reel);
     const reelSpacing = LAYOUT.REEL_SPACING;
     const reelCount = GAME_CONFIG.reels.count;
-    const rowCount = GAME_CONFIG.reels.rows;
+    const rowCount = this.getRowCount(position.reel);
 
     const totalWidth = symbolWidth * reelCount + reelSpacing * (reelCount - 1);
     const startX = -totalWidth / 2 + symbolWidth / 2;
@@ -269,6 +345,20 @@ export class PaylineDrawing {
     return { x, y };
   }
 
+  private getRowCount(reel: number): number {
+    return this.reelRows?.[reel] ?? GAME_CONFIG.reels.rows;
+  }
+
+  /**
+   * Reels keep their height, so more rows mean shorter cells
+   */
+  private getRowHeight(reel: number): number {
+    return (
+      (GAME_CONFIG.reels.symbolHeight * GAME_CONFIG.reels.rows) /
+      this.getRowCount(reel)
+    );
+  }
+
   private getPaylineColor(paylineId: number): number {
     const colors = [
       0xff6b6b, 0x4ecdc4, 0x45b7d1, 0x96ceb4, 0xfeca57, 0xff9ff3, 0x54a0ff,
@@ -298,10 +388,22 @@ export class PaylineDrawing {
     }
   }
 
+  private clearPositionFrames(): void {
+    this.positionTweens.forEach((tween) => tween.kill());
+    this.positionTweens = [];
+
+    this.positionGraphics.forEach((graphics) => {
+      this.container.removeChild(graphics);
+      graphics.destroy();
+    });
+    this.positionGraphics = [];
+  }
+
   clearAllPaylines(): void {
     // Kill all animation tweens first
     this.animationTweens.forEach((tween) => tween.kill());
     this.animationTweens.clear();
+    this.clearPositionFrames();
 
     // Destroy all graphics
     this.paylineGraphics.forEach((graphicsArray) => {
@@ -317,6 +419,7 @@ export class PaylineDrawing {
     // Kill all tweens
     this.animationTweens.forEach((tween) => tween.kill());
     this.animationTweens.clear();
+    this.clearPositionFrames();
 
     this.paylineGraphics.forEach((graphicsArray) => {
       graphicsArray.forEach((graphics) => {
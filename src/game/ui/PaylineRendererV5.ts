@@ -3,6 +3,7 @@ import type { WinResult } from "../../types";
 import { PaylineStateManager } from "../state/PaylineStateManager";
 import { PaylineDrawing } from "./PaylineDrawing";
 import type { GameStateManager } from "../state/GameStateManager";
+import { Betting } from "../logic/Betting";
 
 export class PaylineRendererV5 extends PIXI.Container {
   private stateManager: PaylineStateManager;
@@ -48,14 +49,14 @@ export class PaylineRendererV5 extends PIXI.Container {
           // Show all wins statically (for multiple wins preview)
           this.drawing.clearAllPaylines();
           for (const win of wins) {
-            await this.drawing.drawWinningPayline(win, false);
+            await this.drawWin(win, false);
           }
         } else {
           // Show individual win with animation
           this.drawing.clearAllPaylines();
           const win = wins[currentIndex];
           if (win) {
-            await this.drawing.drawWinningPayline(win, true);
+            await this.drawWin(win, true);
           }
         }
       }
@@ -76,6 +77,16 @@ export class PaylineRendererV5 extends PIXI.Container {
     });
   }
 
+  /**
+   * Line wins trace their payline; ways and scatter wins highlight their
+   * positions on each reel
+   */
+  private drawWin(win: WinResult, animate: boolean): Promise<void> {
+    return win.kind === "line"
+      ? this.drawing.drawWinningPayline(win, animate)
+      : this.drawing.drawWinningPositions(win, animate);
+  }
+
   private setupContainerSkipHandler(): void {
     // Container-level click handler
     this.eventMode = "static";
@@ -159,8 +170,12 @@ export class PaylineRendererV5 extends PIXI.Container {
   }
 
   evaluateAndShowPaylines(reelResults: any[][]): void {
-    const currentBet = this.gameStateManager?.currentBet ?? 20;
-    this.stateManager.evaluatePaylines(reelResults, currentBet);
+    const currentBet = this.gameStateManager?.currentBet ?? Betting.defaultBet;
+    this.stateManager.evaluatePaylines(
+      reelResults,
+      currentBet,
+      this.gameStateManager?.activeLines
+    );
   }
 
   skipAnimation(): void {
@@ -185,6 +200,13 @@ export class PaylineRendererV5 extends PIXI.Container {
     this.drawing.setAnimationSpeed(speed);
   }
 
+  /**
+   * Match win frames to the rows each reel landed with
+   */
+  setReelRows(reelRows: number[] | null): void {
+    this.drawing.setReelRows(reelRows);
+  }
+
   toggleShowAllMode(): void {
     this.stateManager.toggleShowAll();
   }
@@ -241,14 +263,14 @@ export class PaylineRendererV5 extends PIXI.Container {
     if (winIndex >= 0 && winIndex < this.currentWins.length) {
       const win = this.currentWins[winIndex];
       this.drawing.clearAllPaylines();
-      this.drawing.drawWinningPayline(win, true);
+      this.drawWin(win, true);
     }
   }
 
   showAllCurrentWins(): void {
     this.drawing.clearAllPaylines();
     this.currentWins.forEach((win) => {
-      this.drawing.drawWinningPayline(win, false);
+      this.drawWin(win, false);
     });
   }
 
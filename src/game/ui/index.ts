@@ -2,3 +2,4 @@ export { AudioControls } from "./AudioControls";
 export { PaylineDrawing } from "./PaylineDrawing";
 export { PaylineRendererV5 } from "./PaylineRendererV5";
 export { InfoPanel } from "./InfoPanel";
+export { FeatureBanner } from "./FeatureBanner";
@@ -0,0 +1,101 @@
+import type { Money } from "../../types";
+import {
+  InsufficientFundsError,
+  WalletError,
+  WalletTimeoutError,
+  type Wallet,
+} from "./Wallet";
+
+export interface HttpWalletOptions {
+  /** Requests still pending after this fail with a timeout; 5000 by default */
+  timeoutMs?: number;
+}
+
+interface WalletResponse {
+  balance?: Money;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Wallet behind an HTTP service, see tools/wallet-server.ts for a mock.
+ * Amounts are sent as `{ minor, currency }`.
+ *
+ * - `GET /balance`
+ * - `POST /debit` with `{ roundId, amount }`
+ * - `POST /credit` with `{ roundId, amount }`
+ * - `POST /rollback` with `{ roundId }`
+ *
+ * Successful calls answer `{ balance }`. Insufficient funds answer 402 with
+ * `{ error: "insufficientFunds", balance }`, other failures an error status
+ * with `{ error, message }`.
+ */
+export class HttpWallet implements Wallet {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(baseUrl: string, options: HttpWalletOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  getBalance(): Promise<Money> {
+    return this.request("GET", "/balance");
+  }
+
+  debit(roundId: string, amount: Money): Promise<Money> {
+    return this.request("POST", "/debit", { roundId, amount });
+  }
+
+  credit(roundId: string, amount: Money): Promise<Money> {
+    return this.request("POST", "/credit", { roundId, amount });
+  }
+
+  rollback(roundId: string): Promise<Money> {
+    return this.request("POST", "/rollback", { roundId });
+  }
+
+  private async request(
+    method: "GET" | "POST",
+    path: string,
+    body?: object
+  ): Promise<Money> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    let data: WalletResponse;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        signal: controller.signal,
+        ...(body
+          ? {
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(body),
+            }
+          : {}),
+      });
+      data = (await response.json().catch(() => ({}))) as WalletResponse;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new WalletTimeoutError(this.timeoutMs);
+      }
+      throw new WalletError(
+        `Wallet request failed: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (response.status === 402 && data.balance) {
+      throw new InsufficientFundsError(data.balance);
+    }
+    if (!response.ok || !data.balance) {
+      throw new WalletError(
+        data.message ?? `Wallet request failed: ${response.status}`
+      );
+    }
+    return data.balance;
+  }
+}
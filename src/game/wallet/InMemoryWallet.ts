@@ -0,0 +1,105 @@
+import type { Money } from "../../types";
+import { MoneyMath } from "../logic/MoneyMath";
+import { InsufficientFundsError, WalletError, type Wallet } from "./Wallet";
+
+interface RoundTransactions {
+  debit: Money | null;
+  credit: Money | null;
+  rolledBack: boolean;
+}
+
+function isSameAmount(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.minor === b.minor;
+}
+
+/**
+ * Wallet kept in memory, for local play and behind the mock wallet server.
+ * The balance starts over whenever the wallet is created.
+ */
+export class InMemoryWallet implements Wallet {
+  private balance: Money;
+  private rounds = new Map<string, RoundTransactions>();
+
+  constructor(initialBalance: Money = MoneyMath.fromMajor(1000)) {
+    this.balance = initialBalance;
+  }
+
+  async getBalance(): Promise<Money> {
+    return this.balance;
+  }
+
+  async debit(roundId: string, amount: Money): Promise<Money> {
+    this.validateAmount(amount);
+    const round = this.rounds.get(roundId);
+
+    if (round?.rolledBack) {
+      throw new WalletError(`Round ${roundId} was rolled back`);
+    }
+    if (round?.debit) {
+      if (!isSameAmount(round.debit, amount)) {
+        throw new WalletError(`Round ${roundId} was debited another amount`);
+      }
+      return this.balance;
+    }
+    if (MoneyMath.compare(this.balance, amount) < 0) {
+      throw new InsufficientFundsError(this.balance);
+    }
+
+    this.balance = MoneyMath.subtract(this.balance, amount);
+    this.rounds.set(roundId, {
+      debit: amount,
+      credit: null,
+      rolledBack: false,
+    });
+    return this.balance;
+  }
+
+  async credit(roundId: string, amount: Money): Promise<Money> {
+    this.validateAmount(amount);
+    const round = this.rounds.get(roundId);
+
+    if (!round?.debit || round.rolledBack) {
+      throw new WalletError(`Round ${roundId} has no open debit`);
+    }
+    if (round.credit) {
+      if (!isSameAmount(round.credit, amount)) {
+        throw new WalletError(`Round ${roundId} was credited another amount`);
+      }
+      return this.balance;
+    }
+
+    this.balance = MoneyMath.add(this.balance, amount);
+    round.credit = amount;
+    return this.balance;
+  }
+
+  async rollback(roundId: string): Promise<Money> {
+    const round = this.rounds.get(roundId);
+
+    if (!round) {
+      // Recorded so a debit arriving after the rollback is rejected
+      this.rounds.set(roundId, { debit: null, credit: null, rolledBack: true });
+      return this.balance;
+    }
+    if (round.credit) {
+      throw new WalletError(`Round ${roundId} is settled`);
+    }
+    if (!round.rolledBack && round.debit) {
+      this.balance = MoneyMath.add(this.balance, round.debit);
+    }
+
+    round.rolledBack = true;
+    return this.balance;
+  }
+
+  private validateAmount(amount: Money): void {
+    if (amount.currency !== this.balance.currency) {
+      throw new WalletError(
+        `Wallet holds ${this.balance.currency}, got ${amount.currency}`
+      );
+    }
+    if (!Number.isSafeInteger(amount.minor) || amount.minor <= 0) {
+      throw new WalletError(`Invalid amount: ${amount.minor}`);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { Money } from "../../types";
+
+/**
+ * Player balance held outside the game. Every call resolves to the balance
+ * after it. Calls are idempotent per round so a timed out call can be
+ * retried: a round is debited once, credited at most once with its total
+ * win, and a rolled back round rejects a late debit.
+ */
+export interface Wallet {
+  getBalance(): Promise<Money>;
+  /** Stake of a round */
+  debit(roundId: string, amount: Money): Promise<Money>;
+  /** Total win of a debited round */
+  credit(roundId: string, amount: Money): Promise<Money>;
+  /** Refund the round's debit, e.g. when the round could not be played */
+  rollback(roundId: string): Promise<Money>;
+}
+
+export class WalletError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WalletError";
+  }
+}
+
+export class InsufficientFundsError extends WalletError {
+  readonly balance: Money;
+
+  constructor(balance: Money) {
+    super("Insufficient funds");
+    this.name = "InsufficientFundsError";
+    this.balance = balance;
+  }
+}
+
+/**
+ * The wallet did not answer in time; the call may still have been applied
+ */
+export class WalletTimeoutError extends WalletError {
+  constructor(timeoutMs: number) {
+    super(`Wallet did not respond within ${timeoutMs}ms`);
+    this.name = "WalletTimeoutError";
+  }
+}
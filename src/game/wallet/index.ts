@@ -0,0 +1,8 @@
+export {
+  type Wallet,
+  WalletError,
+  InsufficientFundsError,
+  WalletTimeoutError,
+} from "./Wallet";
+export { InMemoryWallet } from "./InMemoryWallet";
+export { HttpWallet, type HttpWalletOptions } from "./HttpWallet";
@@ -8,6 +8,8 @@ export enum SymbolType {
   ORANGE = "orange",
   PEAR = "pear",
   STRAWBERRY = "strawberry",
+  WILD = "wild",
+  SCATTER = "scatter",
 }
 
 export interface Position {
@@ -15,26 +17,177 @@ export interface Position {
   row: number;
 }
 
+/**
+ * Substitution rules of a wild symbol
+ */
+export interface WildConfig {
+  /** Symbols the wild stands in for; all non-wild symbols when omitted */
+  substitutes?: SymbolType[];
+  /** Applied once to a line win that a wild helped complete */
+  multiplier?: number;
+}
+
 export interface SymbolConfig {
   type: SymbolType;
   name: string;
   rarity: number;
   payoutMultipliers: { [key: number]: number };
   imagePath: string;
+  wild?: WildConfig;
+  /** Pays on the number of symbols anywhere on the grid instead of on lines */
+  scatter?: boolean;
+  /**
+   * Cluster pays keyed by minimum cluster size; a cluster pays the entry of
+   * the highest size it reaches
+   */
+  clusterPayouts?: { [size: number]: number };
 }
 
-export interface WinResult {
-  payline: number;
+/**
+ * Amount of money in integer minor units of its currency, e.g. cents, so
+ * sums and payouts never drift
+ */
+export interface Money {
+  minor: number;
+  /** Currency code, e.g. USD */
+  currency: string;
+}
+
+export interface CurrencyConfig {
+  /** ISO 4217 code, or a crypto ticker such as BTC */
+  code: string;
+  /** Minor units per major unit as a power of ten, e.g. 2 for cents */
+  decimals: number;
+  /** Locale amounts are formatted for; the runtime's locale when omitted */
+  locale?: string;
+}
+
+interface BaseWinResult {
+  /** Paying symbol, with wilds resolved to what they substituted */
+  symbol: SymbolType;
   symbols: SymbolType[];
   multiplier: number;
-  winAmount: number;
+  winAmount: Money;
   positions: Position[];
+  /** Cascade step the win was paid on; its positions refer to that step's grid */
+  cascade?: number;
+}
+
+/**
+ * End a line win is read from; its positions are the matched run in reel
+ * order either way
+ */
+export type WinDirection = "leftToRight" | "rightToLeft";
+
+/**
+ * How paylines are read: from one end, or from both ends paying the higher
+ * win of the line
+ */
+export type PaylineDirection = WinDirection | "bothWays";
+
+export interface LineWinResult extends BaseWinResult {
+  kind: "line";
+  payline: number;
+  direction: WinDirection;
 }
 
+/**
+ * Win from matching symbols anywhere on the grid, paid on the total bet
+ */
+export interface ScatterWinResult extends BaseWinResult {
+  kind: "scatter";
+}
+
+/**
+ * Win from a symbol on adjacent reels from the leftmost reel, in any row.
+ * Pays once per way: every combination of one matching position per reel.
+ */
+export interface WaysWinResult extends BaseWinResult {
+  kind: "ways";
+  ways: number;
+}
+
+/**
+ * Win from a group of orthogonally adjacent matching symbols anywhere on
+ * the grid
+ */
+export interface ClusterWinResult extends BaseWinResult {
+  kind: "cluster";
+  size: number;
+}
+
+export type WinResult =
+  LineWinResult | WaysWinResult | ClusterWinResult | ScatterWinResult;
+
+/**
+ * How the grid is evaluated: fixed paylines, any adjacent run of a symbol
+ * from the leftmost reel (243 ways on a 5x3 grid), or clusters of adjacent
+ * symbols paid by size
+ */
+export type WinEvaluationMode = "lines" | "ways" | "cluster";
+
+/**
+ * Which line wins are paid when several paylines win on the same spin:
+ * - `payAll`: every winning payline pays
+ * - `highestPerLine`: each payline pays only its highest win, whatever the
+ *   direction or symbol it is read for; wins on different paylines are added
+ * - `highestPerSymbol`: each symbol pays only on its highest winning line
+ * - `containment`: a win whose positions all lie within a higher win is
+ *   dropped
+ * Scatter, ways and cluster wins are always paid.
+ */
+export type WinPolicy =
+  "payAll" | "highestPerLine" | "highestPerSymbol" | "containment";
+
 export interface SpinResult {
   reelResults: SymbolType[][];
   wins: WinResult[];
-  totalWin: number;
+  totalWin: Money;
+  /**
+   * Seed of the round generator, replays the exact same grid. Absent on
+   * spins dealt in ordered generation mode.
+   */
+  seed?: number;
+  /** Strip index shown in the top row of each reel, when reel strips are used */
+  stops?: number[];
+  /** Played as a free spin; wins already include the free spins multiplier */
+  freeSpin?: boolean;
+  /** Free spins won on this spin, including retriggers during the feature */
+  freeSpinsAwarded?: number;
+  /**
+   * The round hit the max win cap on this spin: `totalWin` is truncated to
+   * what was left of the cap and the round ends, free spins included
+   */
+  maxWinReached?: boolean;
+  /**
+   * Tumble sequence in cascading mode, starting with the landed grid and
+   * ending with the first grid that has no win
+   */
+  cascades?: CascadeStep[];
+}
+
+/**
+ * One evaluation of a tumbling grid. Winning positions are removed, the
+ * symbols above drop down and new symbols fill the reels from the top.
+ */
+export interface CascadeStep {
+  reelResults: SymbolType[][];
+  wins: WinResult[];
+  /** Cascade multiplier applied to this step's wins */
+  multiplier: number;
+  totalWin: Money;
+}
+
+/**
+ * Cascading (tumbling) reels mode
+ */
+export interface CascadeConfig {
+  enabled: boolean;
+  /**
+   * Win multiplier per cascade step, the first entry for the landed grid;
+   * the last entry repeats for longer sequences
+   */
+  multipliers?: number[];
 }
 
 export interface PaylineConfig {
@@ -43,19 +196,61 @@ export interface PaylineConfig {
   name: string;
 }
 
+/**
+ * Ordered symbol list of one reel. A stop index shows `rows` consecutive
+ * symbols starting at that index, wrapping around the end of the strip.
+ */
+export interface ReelStrip {
+  symbols: SymbolType[];
+}
+
+/**
+ * Free spins feature triggered by landing the trigger symbol anywhere
+ */
+export interface FreeSpinsConfig {
+  triggerSymbol: SymbolType;
+  /** Free spins awarded, keyed by the minimum trigger symbol count */
+  awards: { [count: number]: number };
+  /** Awards during the feature; uses `awards` when omitted */
+  retriggerAwards?: { [count: number]: number };
+  /** Applied to every free spin win */
+  winMultiplier?: number;
+}
+
 export interface GameConfig {
   reels: {
-    count: 5;
-    rows: 3;
+    count: number;
+    rows: number;
     symbolHeight: number;
     symbolWidth: number;
+    /**
+     * Each reel shows between `min` and `max` rows per spin, scaled into the
+     * height of `rows` symbols. Needs ways or cluster evaluation.
+     */
+    variableRows?: { min: number; max: number };
   };
   paylines: PaylineConfig[];
+  /**
+   * Currency of bets and wins, defaults to USD. Betting amounts are in its
+   * major units, e.g. dollars.
+   */
+  currency?: CurrencyConfig;
   betting: {
     minBet: number;
     maxBet: number;
     defaultBet: number;
+    /** Paylines played by default; the player can choose 1 to all of them */
     linesPerSpin: number;
+    /**
+     * Money value of one coin; the total bet is coin value × coins per line
+     * × lines played. Defaults to 1.
+     */
+    coinValue?: number;
+    /**
+     * Bet ladder: allowed bets per line, ascending, each a whole number of
+     * coins. Any whole number of coins when absent.
+     */
+    betLevels?: number[];
   };
   animations: {
     spinDuration: number;
@@ -63,4 +258,77 @@ export interface GameConfig {
     winCelebrationDuration: number;
   };
   symbols: SymbolConfig[];
+  /** One strip per reel; without strips every cell is an independent weighted draw */
+  reelStrips?: ReelStrip[];
+  /** Defaults to lines */
+  evaluationMode?: WinEvaluationMode;
+  /** Defaults to containment */
+  winPolicy?: WinPolicy;
+  /** Defaults to leftToRight */
+  paylineDirection?: PaylineDirection;
+  /**
+   * Most a round can pay, free spins included, as a multiple of the total
+   * bet. Uncapped when absent.
+   */
+  maxWin?: number;
+  freeSpins?: FreeSpinsConfig;
+  cascade?: CascadeConfig;
+}
+
+export interface GameDefinitionSymbol {
+  type: SymbolType;
+  name: string;
+  /** Relative draw weight when cells are drawn without reel strips */
+  weight: number;
+  imagePath: string;
+  wild?: WildConfig;
+  scatter?: boolean;
+}
+
+export interface GameDefinitionPayline {
+  id: number;
+  name: string;
+  /** Row on each reel, leftmost reel first */
+  rows: number[];
+}
+
+/**
+ * Versioned JSON format of a complete game: symbols, paytable, paylines,
+ * reel strips, betting and features. Loaded at startup in place of the
+ * built-in game config.
+ */
+export interface GameDefinition {
+  version: 1;
+  id: string;
+  name: string;
+  grid: {
+    reels: number;
+    rows: number;
+    variableRows?: { min: number; max: number };
+  };
+  /** Defaults to lines */
+  evaluationMode?: WinEvaluationMode;
+  /** Defaults to containment */
+  winPolicy?: WinPolicy;
+  /** Defaults to leftToRight */
+  paylineDirection?: PaylineDirection;
+  /** Round payout cap as a multiple of the total bet; uncapped when omitted */
+  maxWin?: number;
+  /** Defaults to USD */
+  currency?: CurrencyConfig;
+  symbols: GameDefinitionSymbol[];
+  /** Line, ways and scatter pays by symbol, keyed by minimum count */
+  paytable: { [symbol: string]: { [count: number]: number } };
+  /** Cluster pays by symbol, keyed by minimum cluster size */
+  clusterPaytable?: { [symbol: string]: { [size: number]: number } };
+  /** Generated from the grid when omitted */
+  paylines?: GameDefinitionPayline[];
+  /** Symbols of each reel strip, one strip per reel */
+  reelStrips?: SymbolType[][];
+  betting: GameConfig["betting"];
+  animations?: GameConfig["animations"];
+  features?: {
+    freeSpins?: FreeSpinsConfig;
+    cascade?: CascadeConfig;
+  };
 }
@@ -0,0 +1,100 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { applyGameDefinition } from "../src/game/config/GameDefinition";
+import { GameDefinitionValidator } from "../src/game/config/GameDefinitionValidator";
+import type { GameDefinition } from "../src/types";
+
+export type CliOptions = Record<string, string | boolean>;
+
+/**
+ * Parse `--name value` and `--flag` arguments
+ */
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      options[name] = next;
+      i++;
+    } else {
+      options[name] = true;
+    }
+  }
+
+  return options;
+}
+
+export function getNumberOption(
+  options: CliOptions,
+  name: string,
+  fallback: number
+): number {
+  const value = options[name];
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (typeof value !== "string" || !Number.isFinite(parsed)) {
+    throw new Error(`--${name} expects a number`);
+  }
+  return parsed;
+}
+
+export function getStringOption(
+  options: CliOptions,
+  name: string
+): string | undefined {
+  const value = options[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Write to the `--out` file when given, otherwise to stdout
+ */
+export function writeOutput(options: CliOptions, content: string): void {
+  const outFile = getStringOption(options, "out");
+  if (outFile) {
+    writeFileSync(outFile, content);
+    console.error(`Wrote ${outFile}`);
+  } else {
+    process.stdout.write(`${content}\n`);
+  }
+}
+
+/**
+ * Read and validate a game definition JSON file
+ */
+export function readGameDefinition(file: string): GameDefinition {
+  return GameDefinitionValidator.parse(JSON.parse(readFileSync(file, "utf8")));
+}
+
+/**
+ * Play the game definition file given with `--game` instead of the
+ * built-in game
+ */
+export function applyGameOption(options: CliOptions): void {
+  const file = getStringOption(options, "game");
+  if (file) {
+    applyGameDefinition(readGameDefinition(file));
+  }
+}
+
+export function runCli(main: () => void | Promise<void>): void {
+  const fail = (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  };
+
+  try {
+    Promise.resolve(main()).catch(fail);
+  } catch (error) {
+    fail(error);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Game definition export and validation.
+ *
+ * Usage: pnpm definition [--id fruit-slot] [--name "Fruit Slot"] [--out file]
+ *        pnpm definition --validate file
+ */
+import { createGameDefinition } from "../src/game/config/GameDefinition";
+import {
+  getStringOption,
+  parseArgs,
+  readGameDefinition,
+  runCli,
+  writeOutput,
+} from "./cli";
+
+runCli(() => {
+  const options = parseArgs(process.argv.slice(2));
+  const file = getStringOption(options, "validate");
+
+  if (file) {
+    const definition = readGameDefinition(file);
+    console.log(`${file}: "${definition.name}" is a valid game definition`);
+    return;
+  }
+
+  const definition = createGameDefinition(
+    getStringOption(options, "id") ?? "fruit-slot",
+    getStringOption(options, "name") ?? "Fruit Slot"
+  );
+  writeOutput(options, JSON.stringify(definition, null, 2));
+});
@@ -0,0 +1,54 @@
+import { appendFile, readFile } from "node:fs/promises";
+import type {
+  JournalEntry,
+  RoundJournal,
+} from "../src/game/journal/RoundJournal";
+
+/**
+ * Journal for Node, one JSON entry per line in an append-only file
+ */
+export class FileJournal implements RoundJournal {
+  private readonly file: string;
+  // Appends are written one after another, in the order they were made,
+  // even when the caller doesn't wait for them
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  append(entry: JournalEntry): Promise<void> {
+    const write = this.lastWrite.then(() =>
+      appendFile(this.file, `${JSON.stringify(entry)}\n`, { flag: "a" })
+    );
+    this.lastWrite = write.catch(() => {});
+    return write;
+  }
+
+  async getEntries(roundId?: string): Promise<JournalEntry[]> {
+    await this.lastWrite;
+    let content: string;
+    try {
+      content = await readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split("\n")
+      .flatMap((line, index) => {
+        if (line.trim() === "") {
+          return [];
+        }
+        try {
+          return [JSON.parse(line) as JournalEntry];
+        } catch {
+          throw new Error(`${this.file}:${index + 1}: invalid journal entry`);
+        }
+      })
+      .filter((entry) => roundId === undefined || entry.roundId === roundId);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Audit a round journal file: list its spins and payouts and replay every
+ * spin from its seed to check the recorded grid and win. Exits with an
+ * error when a spin does not replay.
+ *
+ * Usage: pnpm journal --file rounds.jsonl [--round id] [--game file] [--json] [--out file]
+ */
+import { SlotEngine } from "../src/game/engine/SlotEngine";
+import { MoneyMath } from "../src/game/logic/MoneyMath";
+import type {
+  JournalEntry,
+  SpinJournalEntry,
+} from "../src/game/journal/RoundJournal";
+import type { Money } from "../src/types";
+import {
+  applyGameOption,
+  getStringOption,
+  parseArgs,
+  runCli,
+  writeOutput,
+} from "./cli";
+import { FileJournal } from "./file-journal";
+
+type ReplayStatus = "ok" | "mismatch" | "no seed";
+
+// Replays a spin at what its round had won before it, for the max win cap
+function replaySpin(
+  engine: SlotEngine,
+  entry: SpinJournalEntry,
+  roundWin: Money
+): ReplayStatus {
+  if (entry.seed === null) {
+    return "no seed";
+  }
+
+  const { spinResult } = engine.replay(
+    entry.seed,
+    entry.bet,
+    entry.freeSpin,
+    entry.activeLines,
+    roundWin
+  );
+  const matches =
+    JSON.stringify(spinResult.reelResults) === JSON.stringify(entry.grid) &&
+    MoneyMath.compare(spinResult.totalWin, entry.totalWin) === 0;
+  return matches ? "ok" : "mismatch";
+}
+
+function formatEntry(entry: JournalEntry, status?: ReplayStatus): string {
+  const balance = `${MoneyMath.format(entry.balanceBefore)} -> ${MoneyMath.format(entry.balanceAfter)}`;
+  if (entry.kind === "credit") {
+    return `${entry.timestamp}  ${entry.roundId}  credit  ${MoneyMath.format(entry.amount)}  ${balance}`;
+  }
+  return `${entry.timestamp}  ${entry.roundId}  spin ${entry.spin}  bet ${MoneyMath.format(entry.bet)}  win ${MoneyMath.format(entry.totalWin)}  ${balance}  replay ${status}`;
+}
+
+runCli(async () => {
+  const options = parseArgs(process.argv.slice(2));
+  applyGameOption(options);
+  const file = getStringOption(options, "file");
+  if (!file) {
+    throw new Error("--file is required");
+  }
+
+  const entries = await new FileJournal(file).getEntries(
+    getStringOption(options, "round")
+  );
+  const engine = new SlotEngine();
+  const roundWins = new Map<string, Money>();
+  const statuses = new Map<JournalEntry, ReplayStatus>();
+
+  entries.forEach((entry) => {
+    if (entry.kind === "spin") {
+      const roundWin =
+        roundWins.get(entry.roundId) ?? MoneyMath.zero(entry.bet.currency);
+      statuses.set(entry, replaySpin(engine, entry, roundWin));
+      roundWins.set(entry.roundId, MoneyMath.add(roundWin, entry.totalWin));
+    }
+  });
+
+  writeOutput(
+    options,
+    options.json
+      ? JSON.stringify(
+          entries.map((entry) => ({ ...entry, replay: statuses.get(entry) })),
+          null,
+          2
+        )
+      : entries
+          .map((entry) => formatEntry(entry, statuses.get(entry)))
+          .join("\n")
+  );
+
+  const mismatches = [...statuses.values()].filter(
+    (status) => status === "mismatch"
+  ).length;
+  if (mismatches > 0) {
+    throw new Error(`${mismatches} spin(s) do not replay`);
+  }
+});
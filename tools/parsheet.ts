@@ -0,0 +1,43 @@
+/**
+ * Exact par sheet generator.
+ *
+ * Usage: pnpm parsheet [--model strips|weights] [--csv | --json] [--game file] [--out file]
+ */
+import {
+  ParSheetCalculator,
+  formatParSheet,
+  formatParSheetCsv,
+} from "../src/game/math/ParSheet";
+import type { ReelModelKind } from "../src/game/math/ParSheet";
+import {
+  applyGameOption,
+  getStringOption,
+  parseArgs,
+  runCli,
+  writeOutput,
+} from "./cli";
+
+runCli(() => {
+  const options = parseArgs(process.argv.slice(2));
+  applyGameOption(options);
+  const model = getStringOption(options, "model");
+
+  if (model !== undefined && model !== "strips" && model !== "weights") {
+    throw new Error(`Unknown reel model "${model}", use strips or weights`);
+  }
+
+  const sheet = ParSheetCalculator.calculate(
+    model ? { model: model as ReelModelKind } : {}
+  );
+
+  let output: string;
+  if (options.json) {
+    output = JSON.stringify(sheet, null, 2);
+  } else if (options.csv) {
+    output = formatParSheetCsv(sheet);
+  } else {
+    output = formatParSheet(sheet);
+  }
+
+  writeOutput(options, output);
+});
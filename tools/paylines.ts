@@ -0,0 +1,34 @@
+/**
+ * Payline linter: duplicates, reel order, names that do not match their
+ * shape and overlap statistics. Exits with an error when a line is invalid.
+ *
+ * Usage: pnpm lint-paylines [--game file] [--json] [--out file]
+ */
+import { GAME_CONFIG } from "../src/game/config/GameConfig";
+import {
+  PaylineLinter,
+  formatPaylineLintReport,
+} from "../src/game/config/paylines/PaylineLinter";
+import { applyGameOption, parseArgs, runCli, writeOutput } from "./cli";
+
+runCli(() => {
+  const options = parseArgs(process.argv.slice(2));
+  applyGameOption(options);
+
+  const report = PaylineLinter.lint(
+    GAME_CONFIG.paylines,
+    GAME_CONFIG.reels.count,
+    GAME_CONFIG.reels.rows
+  );
+
+  writeOutput(
+    options,
+    options.json
+      ? JSON.stringify(report, null, 2)
+      : formatPaylineLintReport(report)
+  );
+
+  if (PaylineLinter.hasErrors(report)) {
+    throw new Error("Payline set has errors");
+  }
+});
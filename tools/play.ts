@@ -0,0 +1,124 @@
+/**
+ * Play seeded rounds headless against a wallet through the game's state
+ * manager, the way the game plays them: debit the bet, spin, play out any
+ * free spins and credit the round win. The state manager journals every
+ * spin and payout to a round journal file that `pnpm journal` can audit.
+ *
+ * Usage: pnpm play --file rounds.jsonl [--rounds 100] [--seed 1] [--bet 20] [--lines 20] [--balance 1000] [--wallet url] [--game file]
+ */
+import { SlotEngine } from "../src/game/engine/SlotEngine";
+import { Betting } from "../src/game/logic/Betting";
+import { MoneyMath } from "../src/game/logic/MoneyMath";
+import { SeededRandom } from "../src/game/rng/RandomGenerator";
+import { GameStateManager } from "../src/game/state/GameStateManager";
+import { HttpWallet, InMemoryWallet, type Wallet } from "../src/game/wallet";
+import {
+  applyGameOption,
+  getNumberOption,
+  getStringOption,
+  parseArgs,
+  runCli,
+} from "./cli";
+import { FileJournal } from "./file-journal";
+
+/**
+ * Resolves with the state path once it is no longer `from`
+ */
+function nextState(manager: GameStateManager, from: string): Promise<string> {
+  return new Promise((resolve) => {
+    manager.subscribe("play", () => {
+      if (manager.statePath !== from) {
+        manager.unsubscribe("play");
+        resolve(manager.statePath);
+      }
+    });
+  });
+}
+
+runCli(async () => {
+  const options = parseArgs(process.argv.slice(2));
+  applyGameOption(options);
+  const file = getStringOption(options, "file");
+  if (!file) {
+    throw new Error("--file is required");
+  }
+
+  const rounds = getNumberOption(options, "rounds", 100);
+  const seed = getNumberOption(options, "seed", Date.now() >>> 0);
+  const activeLines = getNumberOption(options, "lines", Betting.maxLines);
+  const walletUrl = getStringOption(options, "wallet");
+  const wallet: Wallet = walletUrl
+    ? new HttpWallet(walletUrl)
+    : new InMemoryWallet(
+        MoneyMath.fromMajor(getNumberOption(options, "balance", 1000))
+      );
+
+  const engine = new SlotEngine(new SeededRandom(seed));
+  const manager = new GameStateManager(wallet, new FileJournal(file));
+  await manager.syncBalance();
+
+  manager.setLines(activeLines);
+  if (manager.activeLines !== activeLines) {
+    throw new Error(`--lines must be between 1 and ${Betting.maxLines}`);
+  }
+  const bet = getNumberOption(
+    options,
+    "bet",
+    MoneyMath.toMajor(manager.currentBet)
+  );
+  manager.setBet(bet);
+  if (MoneyMath.compare(manager.currentBet, MoneyMath.fromMajor(bet)) !== 0) {
+    throw new Error(`--bet ${bet} is not a bet level at ${activeLines} lines`);
+  }
+
+  let played = 0;
+  let state = manager.statePath;
+  for (;;) {
+    if (state === "idle") {
+      if (played === rounds) {
+        break;
+      }
+      if (!manager.canSpin) {
+        console.error(`Stopped after ${played} rounds: insufficient funds`);
+        break;
+      }
+      played++;
+      manager.spin();
+    } else if (state === "spinning" || state === "freeSpins.spinning") {
+      const { spinResult } =
+        state === "freeSpins.spinning"
+          ? engine.spinFree(
+              manager.currentBet,
+              manager.activeLines,
+              manager.roundWin
+            )
+          : engine.spin(manager.currentBet, manager.activeLines);
+      manager.commitSpin(spinResult);
+      manager.completeSpin(spinResult);
+    } else if (state === "celebrating" || state === "freeSpins.celebrating") {
+      manager.completeWinCelebration();
+    } else if (state === "freeSpins.intro") {
+      manager.completeFreeSpinsIntro();
+    } else if (state === "freeSpins.outro") {
+      manager.completeFreeSpinsOutro();
+    } else if (state === "insufficientFunds") {
+      console.error(`Stopped after ${played} rounds: insufficient funds`);
+      break;
+    } else if (state === "creditFailed") {
+      throw new Error(
+        `The wallet did not pay out round ${manager.context.roundId}`
+      );
+    }
+    // Wallet calls, their retries and the pause between free spins move on
+    // by themselves
+
+    state = await nextState(manager, state);
+  }
+
+  manager.destroy();
+  console.error(
+    `Played ${played} rounds with seed ${seed}, balance ${MoneyMath.format(
+      await wallet.getBalance()
+    )}; journal in ${file}`
+  );
+});
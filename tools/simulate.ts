@@ -0,0 +1,58 @@
+/**
+ * Monte Carlo RTP simulator.
+ *
+ * Usage: pnpm simulate [--spins 1000000] [--seed 1] [--bet 20] [--lines 20] [--json] [--game file] [--out file]
+ */
+import {
+  MonteCarloSimulator,
+  formatSimulationReport,
+} from "../src/game/math/Simulator";
+import { Betting } from "../src/game/logic/Betting";
+import { MoneyMath } from "../src/game/logic/MoneyMath";
+import {
+  applyGameOption,
+  getNumberOption,
+  parseArgs,
+  runCli,
+  writeOutput,
+} from "./cli";
+
+runCli(() => {
+  const options = parseArgs(process.argv.slice(2));
+  applyGameOption(options);
+  const spins = getNumberOption(options, "spins", 1000000);
+  const seed = getNumberOption(options, "seed", Date.now() >>> 0);
+  const activeLines = getNumberOption(options, "lines", Betting.maxLines);
+  const bet = getNumberOption(
+    options,
+    "bet",
+    MoneyMath.toMajor(
+      Betting.getTotalBet(Betting.defaultCoinsPerLine, activeLines)
+    )
+  );
+
+  const startTime = Date.now();
+  const report = MonteCarloSimulator.run({
+    spins,
+    seed,
+    bet,
+    activeLines,
+    onProgress: (completed, total) => {
+      process.stderr.write(
+        `\r${completed.toLocaleString()} / ${total.toLocaleString()} spins`
+      );
+    },
+  });
+  process.stderr.write(
+    `\rSimulated ${spins.toLocaleString()} spins in ${
+      (Date.now() - startTime) / 1000
+    }s\n`
+  );
+
+  writeOutput(
+    options,
+    options.json
+      ? JSON.stringify(report, null, 2)
+      : formatSimulationReport(report)
+  );
+});
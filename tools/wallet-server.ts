@@ -0,0 +1,155 @@
+/**
+ * Local mock of the wallet service played by HttpWallet, see
+ * src/game/wallet/HttpWallet.ts for the protocol. Open the game with
+ * `?wallet=http://localhost:8787` to use it.
+ *
+ * Usage: pnpm wallet-server [--port 8787] [--balance 1000] [--latency 0] [--failure-rate 0]
+ */
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { MoneyMath } from "../src/game/logic/MoneyMath";
+import {
+  InMemoryWallet,
+  InsufficientFundsError,
+  WalletError,
+} from "../src/game/wallet";
+import type { Money } from "../src/types";
+import { getNumberOption, parseArgs, runCli } from "./cli";
+
+interface WalletRequest {
+  roundId?: unknown;
+  amount?: unknown;
+}
+
+class BadRequestError extends Error {}
+
+function send(response: ServerResponse, status: number, body: object): void {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: IncomingMessage): Promise<WalletRequest> {
+  let text = "";
+  for await (const chunk of request) {
+    text += chunk;
+  }
+
+  try {
+    const body: unknown = JSON.parse(text || "{}");
+    if (typeof body !== "object" || body === null) {
+      throw new Error();
+    }
+    return body as WalletRequest;
+  } catch {
+    throw new BadRequestError("Body must be a JSON object");
+  }
+}
+
+function getRoundId(body: WalletRequest): string {
+  if (typeof body.roundId !== "string" || body.roundId === "") {
+    throw new BadRequestError("roundId must be a non-empty string");
+  }
+  return body.roundId;
+}
+
+function getAmount(body: WalletRequest): Money {
+  const amount = body.amount as Partial<Money> | undefined;
+  if (
+    typeof amount?.minor !== "number" ||
+    typeof amount.currency !== "string"
+  ) {
+    throw new BadRequestError("amount must be { minor, currency }");
+  }
+  return { minor: amount.minor, currency: amount.currency };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+runCli(() => {
+  const options = parseArgs(process.argv.slice(2));
+  const port = getNumberOption(options, "port", 8787);
+  const latency = getNumberOption(options, "latency", 0);
+  const failureRate = getNumberOption(options, "failure-rate", 0);
+  const wallet = new InMemoryWallet(
+    MoneyMath.fromMajor(getNumberOption(options, "balance", 1000))
+  );
+
+  async function handle(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const route = `${request.method} ${request.url}`;
+    if (request.method === "OPTIONS") {
+      send(response, 204, {});
+      return;
+    }
+
+    await delay(latency);
+    if (Math.random() < failureRate) {
+      send(response, 503, {
+        error: "unavailable",
+        message: "Simulated failure",
+      });
+      return;
+    }
+
+    let balance: Money;
+    switch (route) {
+      case "GET /balance":
+        balance = await wallet.getBalance();
+        break;
+      case "POST /debit": {
+        const body = await readBody(request);
+        balance = await wallet.debit(getRoundId(body), getAmount(body));
+        break;
+      }
+      case "POST /credit": {
+        const body = await readBody(request);
+        balance = await wallet.credit(getRoundId(body), getAmount(body));
+        break;
+      }
+      case "POST /rollback":
+        balance = await wallet.rollback(getRoundId(await readBody(request)));
+        break;
+      default:
+        send(response, 404, { error: "notFound", message: `No ${route}` });
+        return;
+    }
+
+    console.log(`${route} -> ${MoneyMath.format(balance)}`);
+    send(response, 200, { balance });
+  }
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      if (error instanceof InsufficientFundsError) {
+        send(response, 402, {
+          error: "insufficientFunds",
+          message: error.message,
+          balance: error.balance,
+        });
+      } else if (error instanceof BadRequestError) {
+        send(response, 400, { error: "badRequest", message: error.message });
+      } else if (error instanceof WalletError) {
+        send(response, 409, { error: "conflict", message: error.message });
+      } else {
+        console.error(error);
+        send(response, 500, { error: "internal", message: "Internal error" });
+      }
+    });
+  });
+
+  server.listen(port, () => {
+    console.error(`Wallet server listening on http://localhost:${port}`);
+  });
+});